@@ -0,0 +1,132 @@
+import { spawn } from 'node:child_process';
+import { shell } from 'electron';
+import { getSettings } from './storage/index.js';
+import type { EditorId, Settings } from '../shared/types.js';
+
+// Command-line launchers of the editors offered in settings
+const EDITOR_COMMANDS: Record<Exclude<EditorId, 'custom'>, string> = {
+  cursor: 'cursor',
+  vscode: 'code',
+  sublime: 'subl',
+};
+
+/**
+ * Command line that opens a file (at a line, when given) in the editor chosen
+ * in settings, or null when a custom editor is chosen without a command.
+ *
+ * A custom command may place the file and line with {file} and {line};
+ * otherwise the file path is added at the end. Quote a launcher path or
+ * argument that contains spaces.
+ */
+export function resolveEditorCommand(
+  settings: Settings,
+  filePath: string,
+  line?: number
+): string[] | null {
+  switch (settings.editorCommand) {
+    case 'cursor':
+    case 'vscode':
+      return line
+        ? [EDITOR_COMMANDS[settings.editorCommand], '--goto', `${filePath}:${line}`]
+        : [EDITOR_COMMANDS[settings.editorCommand], filePath];
+    case 'sublime':
+      return [EDITOR_COMMANDS.sublime, line ? `${filePath}:${line}` : filePath];
+    case 'custom': {
+      const parts = splitCommandLine(settings.customEditorCommand);
+      if (parts.length === 0) {
+        return null;
+      }
+
+      if (!parts.some((part) => part.includes('{file}'))) {
+        return [...parts, filePath];
+      }
+      return parts.map((part) =>
+        part.replaceAll('{file}', filePath).replaceAll('{line}', String(line ?? 1))
+      );
+    }
+  }
+}
+
+/**
+ * Split a command line into arguments on whitespace, keeping text inside
+ * double or single quotes together (e.g. "/Applications/Sublime Text.app/...")
+ */
+function splitCommandLine(commandLine: string): string[] {
+  const parts: string[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'|(\S)/g;
+  let current: string | null = null;
+  let lastEnd = 0;
+
+  for (const match of commandLine.matchAll(pattern)) {
+    // Whitespace since the previous token ends the current argument
+    if (current !== null && match.index > lastEnd) {
+      parts.push(current);
+      current = null;
+    }
+    current = (current ?? '') + (match[1] ?? match[2] ?? match[3]);
+    lastEnd = match.index + match[0].length;
+  }
+
+  if (current !== null) {
+    parts.push(current);
+  }
+  return parts;
+}
+
+/**
+ * Open a file in the editor from settings, at a line when given. Falls back
+ * to the system's default app for the file when the editor can't be started
+ * (e.g. its launcher isn't on the PATH the app was started with).
+ */
+export async function openInEditor(filePath: string, line?: number): Promise<void> {
+  const command = resolveEditorCommand(getSettings(), filePath, line);
+
+  if (command) {
+    const [program, ...args] = command;
+    try {
+      await launchDetached(program, args);
+      return;
+    } catch (error) {
+      console.warn(`[githulu] Failed to start editor "${program}":`, error);
+    }
+  }
+
+  const errorMessage = await shell.openPath(filePath);
+  if (errorMessage) {
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Start a program without waiting for it to exit.
+ *
+ * On Windows the editor launchers are .cmd shims, which only start through
+ * the shell, so the program and arguments are quoted for cmd.exe there.
+ */
+function launchDetached(program: string, args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child =
+      process.platform === 'win32'
+        ? spawn([program, ...args].map(quoteForCmd).join(' '), {
+            shell: true,
+            detached: true,
+            stdio: 'ignore',
+            windowsHide: true,
+          })
+        : spawn(program, args, { detached: true, stdio: 'ignore' });
+
+    child.once('spawn', () => {
+      child.unref();
+      resolve();
+    });
+
+    child.once('error', reject);
+  });
+}
+
+/**
+ * Quote an argument for cmd.exe (Windows paths can't contain double quotes)
+ */
+function quoteForCmd(arg: string): string {
+  return `"${arg.replaceAll('"', '')}"`;
+}
@@ -0,0 +1,124 @@
+import { runGitQuick } from './runner.js';
+import type { DeletedBranch, GitResult } from '../../shared/types.js';
+
+export interface DeleteLocalBranchesResult {
+  results: GitResult[];
+  deleted: DeletedBranch[];
+  notMerged: string[];
+}
+
+/**
+ * Default branch of the repository: the branch origin/HEAD points to, or a
+ * local main/master. Prefers the local branch when it exists.
+ */
+export async function resolveDefaultBranch(repoPath: string): Promise<string | null> {
+  const headResult = await runGitQuick(repoPath, [
+    'symbolic-ref',
+    '--quiet',
+    '--short',
+    'refs/remotes/origin/HEAD',
+  ]);
+
+  const candidates = headResult.success
+    ? [headResult.stdout.replace(/^origin\//, ''), headResult.stdout]
+    : ['main', 'master'];
+
+  for (const candidate of candidates) {
+    const ref = candidate.startsWith('origin/')
+      ? `refs/remotes/${candidate}`
+      : `refs/heads/${candidate}`;
+    const exists = await runGitQuick(repoPath, ['rev-parse', '--verify', '--quiet', ref]);
+    if (exists.success) return candidate;
+  }
+
+  return null;
+}
+
+/**
+ * Local branches fully merged into `base`, excluding the base itself and the
+ * checked out branch (which can't be deleted)
+ */
+export async function listMergedBranches(repoPath: string, base: string): Promise<string[]> {
+  const result = await runGitQuick(repoPath, [
+    'for-each-ref',
+    `--merged=${base}`,
+    '--format=%(HEAD)%(refname:short)',
+    'refs/heads/',
+  ]);
+  if (!result.success) {
+    throw new Error(`Failed to list merged branches: ${result.stderr}`);
+  }
+
+  return result.stdout
+    .split('\n')
+    .filter((line) => line && !line.startsWith('*'))
+    .map((line) => line.slice(1))
+    .filter((name) => name !== base);
+}
+
+/**
+ * Delete local branches, recording each tip so it can be restored.
+ *
+ * Unless forced, a branch is only deleted when it's fully merged - into
+ * `mergedInto` when given, otherwise into its upstream (or HEAD without one),
+ * the same check `git branch -d` makes. Unmerged branches are reported in
+ * `notMerged` and left alone.
+ */
+export async function deleteLocalBranches(
+  repoPath: string,
+  names: string[],
+  options: { force?: boolean; mergedInto?: string } = {}
+): Promise<DeleteLocalBranchesResult> {
+  const results: GitResult[] = [];
+  const deleted: DeletedBranch[] = [];
+  const notMerged: string[] = [];
+
+  for (const name of names) {
+    const tipResult = await runGitQuick(repoPath, [
+      'rev-parse',
+      '--verify',
+      '--quiet',
+      `refs/heads/${name}`,
+    ]);
+    if (!tipResult.success) {
+      results.push({ ...tipResult, stderr: `Branch '${name}' not found` });
+      continue;
+    }
+
+    if (!options.force) {
+      const target = options.mergedInto ?? (await mergeTarget(repoPath, name));
+      const merged = await runGitQuick(repoPath, [
+        'merge-base',
+        '--is-ancestor',
+        `refs/heads/${name}`,
+        target,
+      ]);
+      if (!merged.success) {
+        notMerged.push(name);
+        continue;
+      }
+    }
+
+    // The merge check above replaces git's own, which only knows about HEAD and the upstream
+    const result = await runGitQuick(repoPath, ['branch', '-D', '--', name]);
+    results.push(result);
+    if (result.success) {
+      deleted.push({ name, hash: tipResult.stdout });
+    }
+  }
+
+  return { results, deleted, notMerged };
+}
+
+/**
+ * Where a branch has to be merged for `git branch -d` to accept deleting it
+ */
+async function mergeTarget(repoPath: string, name: string): Promise<string> {
+  const upstream = await runGitQuick(repoPath, [
+    'rev-parse',
+    '--verify',
+    '--quiet',
+    `refs/heads/${name}@{upstream}`,
+  ]);
+  return upstream.success ? upstream.stdout : 'HEAD';
+}
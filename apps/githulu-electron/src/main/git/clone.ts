@@ -0,0 +1,36 @@
+import * as path from 'node:path';
+import { runGit } from './runner.js';
+import type { CloneOptions, GitResult } from '../../shared/types.js';
+
+// Large repos can take far longer than the usual limit for long operations
+const CLONE_TIMEOUT = 3_600_000; // 1 hour
+
+/**
+ * Clone a repository into a new folder. Git runs from the destination's
+ * parent folder, which must exist.
+ */
+export async function cloneRepository(
+  options: CloneOptions,
+  onProgress?: (line: string) => void,
+  signal?: AbortSignal
+): Promise<GitResult> {
+  const args = ['clone', '--progress'];
+  if (options.branch) {
+    args.push('--branch', options.branch);
+  }
+  if (options.depth) {
+    args.push('--depth', String(options.depth));
+  }
+  if (options.recurseSubmodules) {
+    args.push('--recurse-submodules');
+  }
+  args.push('--', options.url, options.dest);
+
+  return runGit({
+    repoPath: path.dirname(options.dest),
+    args,
+    timeout: CLONE_TIMEOUT,
+    onProgress,
+    signal,
+  });
+}
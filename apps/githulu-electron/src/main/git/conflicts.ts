@@ -0,0 +1,190 @@
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { runGit, runGitQuick } from './runner.js';
+import type {
+  ConflictFileResult,
+  ConflictSegment,
+  ConflictSide,
+  GitResult,
+} from '../../shared/types.js';
+
+// Labels given to git merge-file, so the markers it writes can be recognised
+const OURS_MARKER = /^<{7} ours\r?\n?$/;
+const BASE_MARKER = /^\|{7} base\r?\n?$/;
+const SEPARATOR_MARKER = /^={7}\r?\n?$/;
+const THEIRS_MARKER = /^>{7} theirs\r?\n?$/;
+
+/**
+ * Load a conflicted file as common text and conflict regions.
+ *
+ * The regions are recomputed from index stages 1-3 (base, ours, theirs) with
+ * `git merge-file --diff3`, so they don't depend on the markers (or edits) in
+ * the working tree file. Files missing on one side or binary files can't be
+ * split into regions and come back without segments.
+ */
+export async function loadConflictFile(
+  repoPath: string,
+  filePath: string
+): Promise<ConflictFileResult> {
+  const stages = await readConflictStages(repoPath, filePath);
+  if (stages.size === 0) {
+    throw new Error(`${filePath} has no conflicts`);
+  }
+
+  const ours = stages.get(2);
+  const theirs = stages.get(3);
+  // Added on both sides: merge against an empty base
+  const base = stages.get(1) ?? '';
+
+  if (ours === undefined || theirs === undefined) {
+    return {
+      path: filePath,
+      segments: null,
+      binary: false,
+      deletedBy: ours === undefined ? 'ours' : 'theirs',
+    };
+  }
+
+  if ([ours, base, theirs].some((content) => content.includes('\u0000'))) {
+    return { path: filePath, segments: null, binary: true, deletedBy: null };
+  }
+
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'githulu-conflict-'));
+  try {
+    const files = ['ours', 'base', 'theirs'].map((name) => path.join(tempDir, name));
+    await Promise.all([
+      fs.writeFile(files[0], ours, 'utf-8'),
+      fs.writeFile(files[1], base, 'utf-8'),
+      fs.writeFile(files[2], theirs, 'utf-8'),
+    ]);
+
+    // Exit code is the number of conflicts; only errors exit with 128 or more
+    const result = await runGit({
+      repoPath,
+      args: ['merge-file', '-p', '--diff3', '-L', 'ours', '-L', 'base', '-L', 'theirs', ...files],
+      rawOutput: true,
+    });
+    if (result.exitCode >= 128) {
+      throw new Error(`Failed to merge ${filePath}: ${result.stderr}`);
+    }
+
+    return {
+      path: filePath,
+      segments: parseConflictSegments(result.stdout),
+      binary: false,
+      deletedBy: null,
+    };
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Split `git merge-file --diff3` output into common text and conflict regions.
+ * Every piece of text keeps its line endings, so joining the segments back
+ * together reproduces the file.
+ */
+export function parseConflictSegments(merged: string): ConflictSegment[] {
+  const segments: ConflictSegment[] = [];
+  let common = '';
+  let region: { ours: string; base: string; theirs: string } | null = null;
+  let section: 'ours' | 'base' | 'theirs' = 'ours';
+
+  for (const line of merged.split(/(?<=\n)/)) {
+    if (!region) {
+      if (OURS_MARKER.test(line)) {
+        if (common) segments.push({ type: 'common', text: common });
+        common = '';
+        region = { ours: '', base: '', theirs: '' };
+        section = 'ours';
+      } else {
+        common += line;
+      }
+      continue;
+    }
+
+    if (section === 'ours' && BASE_MARKER.test(line)) {
+      section = 'base';
+    } else if (section !== 'theirs' && SEPARATOR_MARKER.test(line)) {
+      section = 'theirs';
+    } else if (section === 'theirs' && THEIRS_MARKER.test(line)) {
+      segments.push({ type: 'conflict', ...region });
+      region = null;
+    } else {
+      region[section] += line;
+    }
+  }
+
+  if (common) segments.push({ type: 'common', text: common });
+  return segments;
+}
+
+/**
+ * Resolve a conflict by taking one side's version of the whole file, then
+ * stage it. If that side deleted the file, the deletion is staged instead.
+ */
+export async function resolveConflictWithSide(
+  repoPath: string,
+  filePath: string,
+  side: ConflictSide
+): Promise<GitResult> {
+  const stages = await readConflictStages(repoPath, filePath);
+  const stage = side === 'ours' ? 2 : 3;
+
+  if (!stages.has(stage)) {
+    return runGitQuick(repoPath, ['rm', '--quiet', '--', filePath]);
+  }
+
+  const checkoutResult = await runGitQuick(repoPath, ['checkout', `--${side}`, '--', filePath]);
+  if (!checkoutResult.success) {
+    return checkoutResult;
+  }
+
+  return runGitQuick(repoPath, ['add', '--', filePath]);
+}
+
+/**
+ * Write the resolved content of a conflicted file and stage it
+ */
+export async function writeConflictResolution(
+  repoPath: string,
+  filePath: string,
+  content: string
+): Promise<GitResult> {
+  const target = path.resolve(repoPath, filePath);
+  if (!target.startsWith(path.resolve(repoPath) + path.sep)) {
+    throw new Error('Invalid file path');
+  }
+
+  await fs.writeFile(target, content, 'utf-8');
+  return runGitQuick(repoPath, ['add', '--', filePath]);
+}
+
+/**
+ * Contents of the index stages of a conflicted path, keyed by stage number
+ */
+async function readConflictStages(
+  repoPath: string,
+  filePath: string
+): Promise<Map<number, string>> {
+  const listResult = await runGitQuick(repoPath, ['ls-files', '--unmerged', '--', filePath]);
+  if (!listResult.success) {
+    throw new Error(`Failed to read conflict stages: ${listResult.stderr}`);
+  }
+
+  const stages = new Map<number, string>();
+  for (const line of listResult.stdout.split('\n').filter(Boolean)) {
+    // <mode> <object> <stage>\t<path>
+    const match = line.match(/^\d+ ([0-9a-f]+) ([123])\t/);
+    if (!match) continue;
+
+    const blob = await runGit({ repoPath, args: ['cat-file', 'blob', match[1]], rawOutput: true });
+    if (!blob.success) {
+      throw new Error(`Failed to read conflict stages: ${blob.stderr}`);
+    }
+    stages.set(parseInt(match[2], 10), blob.stdout);
+  }
+
+  return stages;
+}
@@ -0,0 +1,263 @@
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { v4 as uuidv4 } from 'uuid';
+import { runGit, runGitQuick } from './runner.js';
+import { parseStatusPorcelainV2 } from './parser.js';
+import type { GitResult } from '../../shared/types.js';
+
+// Snapshots are commits kept alive by hidden refs, so they survive restarts and gc
+export const DISCARD_REF_PREFIX = 'refs/githulu/discarded/';
+
+// for-each-ref format read by parseDiscardSnapshots
+export const DISCARD_SNAPSHOT_FORMAT =
+  '%(refname)<|>%(objectname)<|>%(creatordate:iso-strict)<|>%(contents:body)%1e';
+
+// Snapshots are internal objects, so they don't depend on the user's identity being configured
+const SNAPSHOT_IDENTITY_ENV: Record<string, string> = {
+  GIT_AUTHOR_NAME: 'githulu',
+  GIT_AUTHOR_EMAIL: 'githulu@localhost',
+  GIT_COMMITTER_NAME: 'githulu',
+  GIT_COMMITTER_EMAIL: 'githulu@localhost',
+};
+
+// Only the most recent snapshots are kept
+const MAX_DISCARD_SNAPSHOTS = 20;
+
+/**
+ * Paths to discard, split by how git has to throw them away
+ */
+export interface DiscardTargets {
+  tracked: string[]; // Staged/unstaged changes, restored from HEAD
+  untracked: string[]; // Removed with git clean
+}
+
+/**
+ * Work out what discarding `filePaths` touches from the current status.
+ * Passing no paths selects every change in the working copy.
+ */
+export async function resolveDiscardTargets(
+  repoPath: string,
+  filePaths?: string[]
+): Promise<DiscardTargets> {
+  const statusResult = await runGitQuick(repoPath, ['status', '--porcelain=v2']);
+  if (!statusResult.success) {
+    throw new Error(`Failed to get status: ${statusResult.stderr}`);
+  }
+
+  const status = parseStatusPorcelainV2(statusResult.stdout);
+  const wanted = filePaths ? new Set(filePaths) : null;
+  const tracked = new Set<string>();
+  const untracked = new Set<string>();
+
+  for (const file of [...status.staged, ...status.unstaged]) {
+    if (wanted && !wanted.has(file.path)) continue;
+    tracked.add(file.path);
+    // Discarding a staged rename brings back the original file as well
+    if (file.oldPath) tracked.add(file.oldPath);
+  }
+
+  for (const file of status.untracked) {
+    if (wanted && !wanted.has(file.path)) continue;
+    untracked.add(file.path);
+  }
+
+  return { tracked: [...tracked], untracked: [...untracked] };
+}
+
+/**
+ * Record the current index and working tree content of the targets in a
+ * snapshot commit, so the discard can be undone later. The snapshot's tree
+ * holds the working tree files and its second parent the index at that time.
+ * Returns the snapshot ref name.
+ */
+export async function createDiscardSnapshot(
+  repoPath: string,
+  targets: DiscardTargets
+): Promise<string> {
+  const headResult = await runGitQuick(repoPath, ['rev-parse', '--verify', '--quiet', 'HEAD']);
+  const head = headResult.success ? headResult.stdout : null;
+  const headParents = head ? ['-p', head] : [];
+
+  // Index as it is now
+  const indexTree = await expectGit(runGitQuick(repoPath, ['write-tree']), 'snapshot the index');
+  const indexCommit = await expectGit(
+    runGit({
+      repoPath,
+      args: ['commit-tree', indexTree, ...headParents, '-m', 'githulu: index'],
+      env: SNAPSHOT_IDENTITY_ENV,
+    }),
+    'snapshot the index'
+  );
+
+  // Working tree content of the targets, on top of HEAD, built in a throwaway index
+  const tempIndex = path.join(os.tmpdir(), `githulu-discard-${uuidv4()}.index`);
+  const env = { GIT_INDEX_FILE: tempIndex };
+  const paths = [...targets.tracked, ...targets.untracked];
+
+  try {
+    await expectGit(
+      runGit({ repoPath, args: head ? ['read-tree', head] : ['read-tree', '--empty'], env }),
+      'snapshot the working tree'
+    );
+    await expectGit(
+      runGit({ repoPath, args: ['add', '-A', '--', ...paths], env }),
+      'snapshot the working tree'
+    );
+    const worktreeTree = await expectGit(
+      runGit({ repoPath, args: ['write-tree'], env }),
+      'snapshot the working tree'
+    );
+
+    const snapshot = await expectGit(
+      runGit({
+        repoPath,
+        args: [
+          'commit-tree',
+          worktreeTree,
+          ...headParents,
+          '-p',
+          indexCommit,
+          '-m',
+          buildSnapshotMessage(targets),
+        ],
+        env: SNAPSHOT_IDENTITY_ENV,
+      }),
+      'create the discard snapshot'
+    );
+
+    // The suffix keeps snapshots taken in the same millisecond apart; the
+    // timestamp still sorts them for pruning
+    const refName = `${DISCARD_REF_PREFIX}${Date.now()}-${uuidv4().slice(0, 8)}`;
+    await expectGit(
+      runGitQuick(repoPath, ['update-ref', refName, snapshot]),
+      'create the discard snapshot'
+    );
+
+    await pruneDiscardSnapshots(repoPath);
+    return refName;
+  } finally {
+    await fs.rm(tempIndex, { force: true });
+  }
+}
+
+/**
+ * Throw away the targets' changes: tracked paths go back to HEAD (index and
+ * working tree), untracked files and directories are deleted.
+ */
+export async function discardTargets(
+  repoPath: string,
+  targets: DiscardTargets
+): Promise<GitResult> {
+  const results: GitResult[] = [];
+
+  if (targets.tracked.length > 0) {
+    const headResult = await runGitQuick(repoPath, ['rev-parse', '--verify', '--quiet', 'HEAD']);
+    // Before the first commit there is nothing to restore, only files to unstage
+    const args = headResult.success
+      ? ['restore', '--source=HEAD', '--staged', '--worktree', '--', ...targets.tracked]
+      : ['rm', '-r', '-f', '--cached', '--', ...targets.tracked];
+    results.push(await runGitQuick(repoPath, args));
+  }
+
+  // Also removes files that were only staged (now untracked after the restore)
+  const cleanPaths = [...targets.untracked, ...targets.tracked];
+  if (results.every((r) => r.success) && cleanPaths.length > 0) {
+    results.push(await runGitQuick(repoPath, ['clean', '-f', '-d', '--', ...cleanPaths]));
+  }
+
+  return combineResults(results);
+}
+
+/**
+ * Put the content recorded in a snapshot back into the working tree and index
+ */
+export async function restoreDiscardSnapshot(
+  repoPath: string,
+  refName: string,
+  targets: DiscardTargets
+): Promise<GitResult> {
+  const results: GitResult[] = [];
+  const paths = [...targets.tracked, ...targets.untracked];
+
+  results.push(
+    await runGitQuick(repoPath, ['restore', `--source=${refName}`, '--worktree', '--', ...paths])
+  );
+
+  // Staged changes come back staged; the index snapshot is the last parent
+  if (results[0].success && targets.tracked.length > 0) {
+    results.push(
+      await runGitQuick(repoPath, [
+        'restore',
+        `--source=${refName}^${await countParents(repoPath, refName)}`,
+        '--staged',
+        '--',
+        ...targets.tracked,
+      ])
+    );
+  }
+
+  return combineResults(results);
+}
+
+/**
+ * Keep only the most recent snapshots
+ */
+async function pruneDiscardSnapshots(repoPath: string): Promise<void> {
+  const result = await runGitQuick(repoPath, [
+    'for-each-ref',
+    '--sort=-refname',
+    '--format=%(refname)',
+    DISCARD_REF_PREFIX,
+  ]);
+  if (!result.success) return;
+
+  const stale = result.stdout.split('\n').filter(Boolean).slice(MAX_DISCARD_SNAPSHOTS);
+  for (const refName of stale) {
+    await runGitQuick(repoPath, ['update-ref', '-d', refName]);
+  }
+}
+
+/**
+ * Snapshot commit message: a summary line, then one line per path
+ */
+function buildSnapshotMessage(targets: DiscardTargets): string {
+  const count = targets.tracked.length + targets.untracked.length;
+  return [
+    `githulu: discarded ${count} ${count === 1 ? 'file' : 'files'}`,
+    '',
+    ...targets.tracked.map((p) => `tracked: ${p}`),
+    ...targets.untracked.map((p) => `untracked: ${p}`),
+  ].join('\n');
+}
+
+async function countParents(repoPath: string, refName: string): Promise<number> {
+  const result = await expectGit(
+    runGitQuick(repoPath, ['rev-list', '--parents', '-n', '1', refName]),
+    'read the discard snapshot'
+  );
+  return result.split(' ').length - 1;
+}
+
+async function expectGit(pending: Promise<GitResult>, action: string): Promise<string> {
+  const result = await pending;
+  if (!result.success) {
+    throw new Error(`Failed to ${action}: ${result.stderr}`);
+  }
+  return result.stdout;
+}
+
+function combineResults(results: GitResult[]): GitResult {
+  return {
+    success: results.every((r) => r.success),
+    stdout: results
+      .map((r) => r.stdout)
+      .filter(Boolean)
+      .join('\n'),
+    stderr: results
+      .map((r) => r.stderr)
+      .filter(Boolean)
+      .join('\n'),
+    exitCode: results.find((r) => !r.success)?.exitCode ?? 0,
+  };
+}
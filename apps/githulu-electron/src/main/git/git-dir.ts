@@ -0,0 +1,49 @@
+import * as path from 'node:path';
+import { runGitQuick } from './runner.js';
+
+/**
+ * Where git keeps a repository's state.
+ *
+ * A linked worktree has its own git dir (HEAD, index, rebase and sequencer
+ * state) inside the main repo's common dir (refs, config, objects); for other
+ * repos the two are the same. In worktrees and submodules `.git` is a file
+ * pointing elsewhere, so neither can be assumed to be `<repo>/.git`.
+ */
+export interface GitDirs {
+  gitDir: string;
+  commonDir: string;
+}
+
+// Resolved git dirs keyed by repo path
+const gitDirCache = new Map<string, GitDirs>();
+
+/**
+ * Resolve a repo's git dir and common dir as absolute paths, cached per repo
+ */
+export async function resolveGitDirs(repoPath: string): Promise<GitDirs> {
+  const cached = gitDirCache.get(repoPath);
+  if (cached) {
+    return cached;
+  }
+
+  const result = await runGitQuick(repoPath, ['rev-parse', '--git-dir', '--git-common-dir']);
+  if (!result.success) {
+    throw new Error(`Failed to resolve git directory: ${result.stderr}`);
+  }
+
+  // Either may be printed relative to the repo path
+  const [gitDir, commonDir] = result.stdout
+    .split('\n')
+    .map((dir) => path.resolve(repoPath, dir.trim()));
+
+  const dirs = { gitDir, commonDir: commonDir ?? gitDir };
+  gitDirCache.set(repoPath, dirs);
+  return dirs;
+}
+
+/**
+ * Forget a repo's git dirs, e.g. when it's removed
+ */
+export function clearGitDirCache(repoPath: string): void {
+  gitDirCache.delete(repoPath);
+}
@@ -0,0 +1,72 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { runGitQuick } from './runner.js';
+import type { GitignoreTemplate, GitResult, InitOptions } from '../../shared/types.js';
+
+// Starting points for a .gitignore, kept to what's almost always wanted
+export const GITIGNORE_TEMPLATES: Record<GitignoreTemplate, string[]> = {
+  node: ['node_modules/', 'dist/', 'build/', 'coverage/', '.env', '*.log', '.DS_Store'],
+  python: [
+    '__pycache__/',
+    '*.py[cod]',
+    '.venv/',
+    'venv/',
+    'dist/',
+    'build/',
+    '*.egg-info/',
+    '.pytest_cache/',
+    '.env',
+    '.DS_Store',
+  ],
+  go: ['/bin/', '*.exe', '*.test', '*.out', 'vendor/', '.env', '.DS_Store'],
+  rust: ['/target/', '**/*.rs.bk', '.DS_Store'],
+  java: ['target/', 'build/', '.gradle/', '*.class', '*.jar', '.idea/', '*.iml', '.DS_Store'],
+  macos: ['.DS_Store', '.AppleDouble', '.LSOverride', '._*'],
+};
+
+/**
+ * Initialize a repository in a folder, creating the folder if needed.
+ * An existing .gitignore is kept rather than replaced by the template.
+ */
+export async function initRepository(folderPath: string, options: InitOptions): Promise<GitResult> {
+  await fs.mkdir(folderPath, { recursive: true });
+
+  const initResult = await runGitQuick(folderPath, ['init']);
+  if (!initResult.success) {
+    return initResult;
+  }
+
+  let wroteGitignore = false;
+  if (options.gitignoreTemplate) {
+    const gitignorePath = path.join(folderPath, '.gitignore');
+    if (!(await fileExists(gitignorePath))) {
+      const lines = GITIGNORE_TEMPLATES[options.gitignoreTemplate];
+      await fs.writeFile(gitignorePath, `${lines.join('\n')}\n`, 'utf-8');
+      wroteGitignore = true;
+    }
+  }
+
+  if (!options.initialCommit) {
+    return initResult;
+  }
+
+  // Only the generated .gitignore goes in: files already in the folder may be
+  // secrets or build output, so they're left for the user to review and commit
+  if (wroteGitignore) {
+    const addResult = await runGitQuick(folderPath, ['add', '--', '.gitignore']);
+    if (!addResult.success) {
+      return addResult;
+    }
+  }
+
+  return runGitQuick(folderPath, ['commit', '--allow-empty', '-m', 'Initial commit']);
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    const stat = await fs.stat(filePath);
+    return stat.isFile();
+  } catch {
+    return false;
+  }
+}
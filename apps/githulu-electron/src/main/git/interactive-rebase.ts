@@ -0,0 +1,112 @@
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { RebaseAction, RebaseTodoEntry } from '../../shared/types.js';
+
+const REBASE_ACTIONS: RebaseAction[] = ['pick', 'reword', 'edit', 'squash', 'fixup', 'drop'];
+
+/**
+ * Environment that keeps git from opening an editor for commit messages.
+ * ':' is treated by git as "accept the prepared message as-is".
+ */
+export const NON_INTERACTIVE_EDITOR_ENV: Record<string, string> = {
+  GIT_EDITOR: ':',
+};
+
+/**
+ * Validate a todo list received from the renderer
+ */
+export function validateRebaseTodo(entries: RebaseTodoEntry[]): void {
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error('Rebase todo list cannot be empty');
+  }
+
+  for (const entry of entries) {
+    if (!entry || typeof entry.hash !== 'string' || !/^[0-9a-f]{4,40}$/i.test(entry.hash)) {
+      throw new Error('Invalid commit hash in rebase todo list');
+    }
+
+    if (!REBASE_ACTIONS.includes(entry.action)) {
+      throw new Error(`Invalid rebase action: ${entry.action}`);
+    }
+
+    if (entry.message !== undefined && typeof entry.message !== 'string') {
+      throw new Error('Invalid reword message');
+    }
+  }
+
+  // squash/fixup meld into the previous commit, so something must be picked before them
+  const firstKept = entries.find((entry) => entry.action !== 'drop');
+  if (firstKept && (firstKept.action === 'squash' || firstKept.action === 'fixup')) {
+    throw new Error(`Cannot ${firstKept.action} without a previous commit`);
+  }
+}
+
+/**
+ * Build the git-rebase-todo text for a list of entries (in execution order).
+ * A reword with a new message becomes a pick followed by an amend, so the
+ * rebase never has to stop and open an editor. Subjects are left out: git
+ * only reads the hash, and text from the renderer must not add todo lines.
+ */
+export function buildRebaseTodo(entries: RebaseTodoEntry[]): string {
+  const lines: string[] = [];
+
+  for (const entry of entries) {
+    const message = entry.message?.trim();
+
+    if (entry.action === 'reword' && message) {
+      lines.push(`pick ${entry.hash}`);
+      lines.push(`exec ${buildAmendCommand(message)}`);
+      continue;
+    }
+
+    lines.push(`${entry.action} ${entry.hash}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Amend HEAD with a message, as a single shell line for an `exec` todo entry.
+ * Hooks are skipped: a reword should not re-run pre-commit checks.
+ */
+function buildAmendCommand(message: string): string {
+  const lines = message.split('\n').map(shellQuote).join(' ');
+  return `printf '%s\\n' ${lines} | git commit --amend --allow-empty --no-verify -F -`;
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+export interface SequenceEditor {
+  env: Record<string, string>;
+  cleanup: () => Promise<void>;
+}
+
+/**
+ * Write the todo list and a sequence editor script that replaces git's
+ * generated todo with it. Call cleanup() once `git rebase -i` has returned
+ * (git only reads the todo at the start, even if the rebase stops later).
+ */
+export async function prepareSequenceEditor(entries: RebaseTodoEntry[]): Promise<SequenceEditor> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'githulu-rebase-'));
+  const todoPath = path.join(tempDir, 'git-rebase-todo');
+  const scriptPath = path.join(tempDir, 'sequence-editor.sh');
+
+  await fs.writeFile(todoPath, buildRebaseTodo(entries), 'utf-8');
+  await fs.writeFile(scriptPath, `#!/bin/sh\ncat ${shellQuote(todoPath)} > "$1"\n`, {
+    encoding: 'utf-8',
+    mode: 0o755,
+  });
+
+  return {
+    env: {
+      ...NON_INTERACTIVE_EDITOR_ENV,
+      GIT_SEQUENCE_EDITOR: shellQuote(scriptPath),
+    },
+    cleanup: async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import type { LogFilter } from '../../shared/types.js';
+
+// Dates come from date inputs; git would also accept looser forms like "2 weeks ago"
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validate an optional log filter
+ */
+export function validateLogFilter(filter: LogFilter | undefined): void {
+  if (filter === undefined) return;
+
+  if (!filter || typeof filter !== 'object') {
+    throw new Error('Invalid log filter');
+  }
+
+  for (const field of ['author', 'message', 'content', 'path'] as const) {
+    if (filter[field] !== undefined && typeof filter[field] !== 'string') {
+      throw new Error(`Invalid log filter ${field}`);
+    }
+  }
+
+  for (const field of ['since', 'until'] as const) {
+    const value = filter[field];
+    if (value !== undefined && (typeof value !== 'string' || !DATE_PATTERN.test(value))) {
+      throw new Error(`Invalid log filter ${field} date`);
+    }
+  }
+
+  if (filter.contentRegex !== undefined && typeof filter.contentRegex !== 'boolean') {
+    throw new Error('Invalid log filter contentRegex');
+  }
+}
+
+/**
+ * git log options for a filter. Values are joined to their option
+ * (`--author=<value>`) so they can never be read as options of their own.
+ * The path isn't included; it's a pathspec and goes after `--`.
+ */
+export function logFilterArgs(filter: LogFilter | undefined): string[] {
+  if (!filter) return [];
+
+  const args: string[] = [];
+  if (filter.author) {
+    args.push(`--author=${filter.author}`);
+  }
+  if (filter.message) {
+    args.push(`--grep=${filter.message}`);
+  }
+  if (filter.author || filter.message) {
+    args.push('--regexp-ignore-case');
+  }
+
+  // Whole days: from the start of `since` to the end of `until`
+  if (filter.since) {
+    args.push(`--since=${filter.since} 00:00:00`);
+  }
+  if (filter.until) {
+    args.push(`--until=${filter.until} 23:59:59`);
+  }
+
+  // -S finds commits that change how often the text occurs, -G those whose diff matches
+  if (filter.content) {
+    args.push(filter.contentRegex ? `-G${filter.content}` : `-S${filter.content}`);
+  }
+
+  return args;
+}
@@ -1,6 +1,18 @@
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
-import type { FileChange, RebaseState, BranchInfo, StashInfo } from '../../shared/types.js';
+import { resolveGitDirs } from './git-dir.js';
+import type {
+  FileChange,
+  SubmoduleChange,
+  RebaseState,
+  RebaseTodoEntry,
+  BranchInfo,
+  StashInfo,
+  BlameLine,
+  TagInfo,
+  DiscardSnapshot,
+  SequencerOperation,
+} from '../../shared/types.js';
 
 /**
  * Parsed result from git status --porcelain=v2 -b
@@ -112,6 +124,7 @@ function parseOrdinaryEntry(line: string, result: ParsedStatus): void {
   // XY is the status code (X = staged, Y = unstaged)
   const parts = line.split(' ');
   const xy = parts[1];
+  const submodule = parseSubmoduleField(parts[2]);
   const filePath = parts.slice(8).join(' '); // Path might have spaces
 
   const x = xy[0]; // Staged status
@@ -123,6 +136,7 @@ function parseOrdinaryEntry(line: string, result: ParsedStatus): void {
       path: filePath,
       status: x,
       kind: 'staged',
+      submodule,
     });
   }
 
@@ -132,15 +146,33 @@ function parseOrdinaryEntry(line: string, result: ParsedStatus): void {
       path: filePath,
       status: y,
       kind: 'unstaged',
+      submodule,
     });
   }
 }
 
+/**
+ * Parse the <sub> field of a porcelain v2 entry: "N..." for a regular file,
+ * "S<c><m><u>" for a submodule, where each flag is "." when unset
+ */
+function parseSubmoduleField(sub: string): SubmoduleChange | undefined {
+  if (!sub || sub[0] !== 'S') {
+    return undefined;
+  }
+
+  return {
+    commitChanged: sub[1] === 'C',
+    modified: sub[2] === 'M',
+    untracked: sub[3] === 'U',
+  };
+}
+
 function parseRenamedEntry(line: string, result: ParsedStatus): void {
   // Format: 2 XY sub mH mI mW hH hI Xscore path\torigPath
   const parts = line.split('\t');
   const mainPart = parts[0].split(' ');
   const xy = mainPart[1];
+  const submodule = parseSubmoduleField(mainPart[2]);
   const newPath = mainPart.slice(9).join(' ');
   const oldPath = parts[1];
 
@@ -153,6 +185,7 @@ function parseRenamedEntry(line: string, result: ParsedStatus): void {
       status: x,
       kind: 'staged',
       oldPath,
+      submodule,
     });
   }
 
@@ -161,6 +194,7 @@ function parseRenamedEntry(line: string, result: ParsedStatus): void {
       path: newPath,
       status: y,
       kind: 'unstaged',
+      submodule,
     });
   }
 }
@@ -179,10 +213,11 @@ function parseUnmergedEntry(line: string, result: ParsedStatus): void {
 }
 
 /**
- * Detect if a rebase is in progress
+ * Detect if a rebase (or a cherry-pick, revert or merge) is in progress
  */
 export async function detectRebaseState(repoPath: string): Promise<RebaseState> {
-  const gitDir = path.join(repoPath, '.git');
+  // Rebase and sequencer state is per worktree, so it lives in the git dir
+  const { gitDir } = await resolveGitDirs(repoPath);
 
   // Check for rebase-merge directory (interactive rebase)
   const rebaseMergePath = path.join(gitDir, 'rebase-merge');
@@ -195,11 +230,14 @@ export async function detectRebaseState(repoPath: string): Promise<RebaseState>
   ]);
 
   if (!hasMerge && !hasApply) {
-    return { inProgress: false, conflicts: [] };
+    return detectSequencerState(gitDir);
   }
 
   const rebasePath = hasMerge ? rebaseMergePath : rebaseApplyPath;
 
+  // rebase-merge/interactive marks a `git rebase -i` (including our todo editor)
+  const interactive = hasMerge && (await fileExists(path.join(rebasePath, 'interactive')));
+
   // Try to read step info
   let step: number | undefined;
   let total: number | undefined;
@@ -220,12 +258,56 @@ export async function detectRebaseState(repoPath: string): Promise<RebaseState>
 
   return {
     inProgress: true,
+    operation: 'rebase',
+    interactive,
     step,
     total,
     conflicts: [], // Will be filled from status parsing
   };
 }
 
+/**
+ * A stopped cherry-pick or revert leaves CHERRY_PICK_HEAD/REVERT_HEAD (the
+ * commit being applied) and, for several commits, the sequencer directory with
+ * the remaining ones. The sequencer can outlive those heads, e.g. when a pick
+ * became empty, so its todo list tells the two operations apart. A merge
+ * waiting for its commit leaves MERGE_HEAD.
+ */
+async function detectSequencerState(gitDir: string): Promise<RebaseState> {
+  const sequencerPath = path.join(gitDir, 'sequencer');
+  const [hasPickHead, hasRevertHead, hasSequencer, hasMergeHead] = await Promise.all([
+    fileExists(path.join(gitDir, 'CHERRY_PICK_HEAD')),
+    fileExists(path.join(gitDir, 'REVERT_HEAD')),
+    directoryExists(sequencerPath),
+    fileExists(path.join(gitDir, 'MERGE_HEAD')),
+  ]);
+
+  if (!hasPickHead && !hasRevertHead && !hasSequencer) {
+    return hasMergeHead
+      ? { inProgress: true, operation: 'merge', conflicts: [] }
+      : { inProgress: false, conflicts: [] };
+  }
+
+  let operation: SequencerOperation = hasRevertHead ? 'revert' : 'cherry-pick';
+
+  if (!hasPickHead && !hasRevertHead) {
+    try {
+      const todo = await fs.readFile(path.join(sequencerPath, 'todo'), 'utf-8');
+      if (todo.trimStart().startsWith('revert ')) {
+        operation = 'revert';
+      }
+    } catch {
+      // No todo left - treat as a cherry-pick
+    }
+  }
+
+  return {
+    inProgress: true,
+    operation,
+    conflicts: [], // Will be filled from status parsing
+  };
+}
+
 async function directoryExists(dirPath: string): Promise<boolean> {
   try {
     const stat = await fs.stat(dirPath);
@@ -235,6 +317,40 @@ async function directoryExists(dirPath: string): Promise<boolean> {
   }
 }
 
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    const stat = await fs.stat(filePath);
+    return stat.isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse the commits of a rebase range into todo entries (all "pick")
+ * Format: %H<sep>%h<sep>%s, oldest first (git log --reverse)
+ */
+export function parseRebaseTodoCommits(
+  output: string,
+  separator: string = '<|>'
+): RebaseTodoEntry[] {
+  const entries: RebaseTodoEntry[] = [];
+
+  for (const line of output.split('\n').filter(Boolean)) {
+    const [hash, shortHash, ...subjectParts] = line.split(separator);
+    if (!hash || !shortHash) continue;
+
+    entries.push({
+      hash,
+      shortHash,
+      subject: subjectParts.join(separator),
+      action: 'pick',
+    });
+  }
+
+  return entries;
+}
+
 /**
  * Parse git branch --all --verbose output
  */
@@ -353,6 +469,7 @@ export function parseBranchList(output: string): {
  * Parse unified diff output into structured format
  */
 export interface ParsedDiff {
+  header: string[]; // File header lines (diff --git, index, ---/+++) before the first hunk
   hunks: DiffHunk[];
 }
 
@@ -370,17 +487,56 @@ export interface DiffLineInfo {
   content: string;
   oldLineNumber?: number;
   newLineNumber?: number;
+  noNewline?: boolean; // Followed by "\ No newline at end of file"
 }
 
 export function parseUnifiedDiff(diffText: string): ParsedDiff {
+  const header: string[] = [];
   const hunks: DiffHunk[] = [];
   const lines = diffText.split('\n');
 
   let currentHunk: DiffHunk | null = null;
   let oldLine = 0;
   let newLine = 0;
+  // Lines left in the current hunk, so content like "--- x" isn't mistaken for a file header
+  let oldRemaining = 0;
+  let newRemaining = 0;
 
   for (const line of lines) {
+    if (currentHunk && line.startsWith('\\')) {
+      const last = currentHunk.lines[currentHunk.lines.length - 1];
+      if (last) last.noNewline = true;
+      continue;
+    }
+
+    if (currentHunk && (oldRemaining > 0 || newRemaining > 0)) {
+      if (line.startsWith('+')) {
+        currentHunk.lines.push({
+          type: 'addition',
+          content: line.slice(1),
+          newLineNumber: newLine++,
+        });
+        newRemaining--;
+      } else if (line.startsWith('-')) {
+        currentHunk.lines.push({
+          type: 'deletion',
+          content: line.slice(1),
+          oldLineNumber: oldLine++,
+        });
+        oldRemaining--;
+      } else {
+        currentHunk.lines.push({
+          type: 'context',
+          content: line.slice(1),
+          oldLineNumber: oldLine++,
+          newLineNumber: newLine++,
+        });
+        oldRemaining--;
+        newRemaining--;
+      }
+      continue;
+    }
+
     // Hunk header: @@ -start,count +start,count @@
     const hunkMatch = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/);
     if (hunkMatch) {
@@ -390,50 +546,22 @@ export function parseUnifiedDiff(diffText: string): ParsedDiff {
 
       oldLine = parseInt(hunkMatch[1], 10);
       newLine = parseInt(hunkMatch[3], 10);
+      oldRemaining = parseInt(hunkMatch[2] ?? '1', 10);
+      newRemaining = parseInt(hunkMatch[4] ?? '1', 10);
 
       currentHunk = {
         oldStart: oldLine,
-        oldCount: parseInt(hunkMatch[2] || '1', 10),
+        oldCount: oldRemaining,
         newStart: newLine,
-        newCount: parseInt(hunkMatch[4] || '1', 10),
+        newCount: newRemaining,
         header: line,
         lines: [],
       };
       continue;
     }
 
-    if (!currentHunk) continue;
-
-    // Skip diff metadata lines
-    if (
-      line.startsWith('diff --git') ||
-      line.startsWith('index ') ||
-      line.startsWith('---') ||
-      line.startsWith('+++') ||
-      line.startsWith('\\')
-    ) {
-      continue;
-    }
-
-    if (line.startsWith('+')) {
-      currentHunk.lines.push({
-        type: 'addition',
-        content: line.slice(1),
-        newLineNumber: newLine++,
-      });
-    } else if (line.startsWith('-')) {
-      currentHunk.lines.push({
-        type: 'deletion',
-        content: line.slice(1),
-        oldLineNumber: oldLine++,
-      });
-    } else if (line.startsWith(' ') || line === '') {
-      currentHunk.lines.push({
-        type: 'context',
-        content: line.slice(1),
-        oldLineNumber: oldLine++,
-        newLineNumber: newLine++,
-      });
+    if (!currentHunk && line !== '') {
+      header.push(line);
     }
   }
 
@@ -441,13 +569,14 @@ export function parseUnifiedDiff(diffText: string): ParsedDiff {
     hunks.push(currentHunk);
   }
 
-  return { hunks };
+  return { header, hunks };
 }
 
 /**
  * Parse git stash list output
- * Format: %gd<sep>%gs<sep>%H<sep>%ci
- * Example: stash@{0}<|>WIP on main: commit message<|>abc123...<|>2024-01-15 10:30:00 -0800
+ * Format: %gd<sep>%gs<sep>%H<sep>%ci<sep>%P
+ * Example: stash@{0}<|>WIP on main: commit message<|>abc123...<|>2024-01-15 10:30:00 -0800<|>def456... 789abc...
+ * The first parent is the commit the stash was created on.
  */
 export function parseStashList(output: string, separator: string = '<|>'): StashInfo[] {
   const stashes: StashInfo[] = [];
@@ -460,9 +589,9 @@ export function parseStashList(output: string, separator: string = '<|>'): Stash
 
   for (const line of lines) {
     const parts = line.split(separator);
-    if (parts.length < 4) continue;
+    if (parts.length < 5) continue;
 
-    const [ref, message, hash, isoDate] = parts;
+    const [ref, message, hash, isoDate, parents] = parts;
 
     // Extract index from stash@{N}
     const indexMatch = ref.match(/stash@\{(\d+)\}/);
@@ -490,12 +619,217 @@ export function parseStashList(output: string, separator: string = '<|>'): Stash
       hash,
       date: isoDate,
       relativeDate,
+      baseHash: parents.split(' ')[0],
     });
   }
 
   return stashes;
 }
 
+/**
+ * Parse git for-each-ref output for refs/tags
+ * Format: %(refname:short)<sep>%(objecttype)<sep>%(objectname)<sep>%(*objectname)<sep>
+ *         %(subject)<sep>%(*subject)<sep>%(taggername)<sep>%(taggeremail:trim)<sep>
+ *         %(creatordate:iso-strict)<sep>%(contents:subject)<sep>%(contents:body)<record>
+ * Records are terminated by a record separator since tag messages can span lines.
+ */
+export function parseTagList(
+  output: string,
+  separator: string = '<|>',
+  recordSeparator: string = '\x1e'
+): TagInfo[] {
+  const tags: TagInfo[] = [];
+
+  for (const record of output.split(recordSeparator)) {
+    const trimmed = record.replace(/^\n/, '');
+    if (!trimmed) continue;
+
+    const parts = trimmed.split(separator);
+    if (parts.length < 11) continue;
+
+    const [
+      name,
+      objectType,
+      objectName,
+      peeledName,
+      subject,
+      peeledSubject,
+      tagger,
+      taggerEmail,
+      isoDate,
+      messageSubject,
+      messageBody,
+    ] = parts;
+
+    // Annotated tags are tag objects that peel to the commit; lightweight tags point at it directly
+    const isAnnotated = objectType === 'tag';
+    const targetHash = isAnnotated ? peeledName : objectName;
+    const message = [messageSubject, messageBody.trim()].filter(Boolean).join('\n\n');
+
+    tags.push({
+      name,
+      isAnnotated,
+      targetHash,
+      targetShortHash: targetHash.slice(0, 7),
+      targetSubject: isAnnotated ? peeledSubject : subject,
+      tagger: isAnnotated ? tagger : undefined,
+      taggerEmail: isAnnotated ? taggerEmail.replace(/^<|>$/g, '') : undefined,
+      message: isAnnotated ? message : undefined,
+      date: isoDate,
+      relativeDate: isoDate ? getRelativeDate(new Date(isoDate)) : '',
+    });
+  }
+
+  return tags;
+}
+
+/**
+ * Parse git for-each-ref output for discard snapshot refs
+ * Format: %(refname)<sep>%(objectname)<sep>%(creatordate:iso-strict)<sep>%(contents:body)<record>
+ * The body lists one "tracked: <path>" or "untracked: <path>" line per discarded path.
+ */
+export function parseDiscardSnapshots(
+  output: string,
+  separator: string = '<|>',
+  recordSeparator: string = '\x1e'
+): DiscardSnapshot[] {
+  const snapshots: DiscardSnapshot[] = [];
+
+  for (const record of output.split(recordSeparator)) {
+    const trimmed = record.replace(/^\n/, '');
+    if (!trimmed) continue;
+
+    const parts = trimmed.split(separator);
+    if (parts.length < 4) continue;
+
+    const [id, hash, isoDate, body] = parts;
+    const trackedPaths: string[] = [];
+    const untrackedPaths: string[] = [];
+
+    for (const line of body.split('\n')) {
+      if (line.startsWith('tracked: ')) {
+        trackedPaths.push(line.slice('tracked: '.length));
+      } else if (line.startsWith('untracked: ')) {
+        untrackedPaths.push(line.slice('untracked: '.length));
+      }
+    }
+
+    snapshots.push({
+      id,
+      hash,
+      trackedPaths,
+      untrackedPaths,
+      date: isoDate,
+      relativeDate: isoDate ? getRelativeDate(new Date(isoDate)) : '',
+    });
+  }
+
+  return snapshots;
+}
+
+const UNCOMMITTED_HASH = '0000000000000000000000000000000000000000';
+
+interface BlameCommitInfo {
+  author: string;
+  authorEmail: string;
+  date: string;
+  summary: string;
+  filename: string;
+  previous?: { commit: string; path: string };
+}
+
+/**
+ * Parse git blame --porcelain output
+ * Each line starts with "<hash> <orig-line> <final-line> [<group-size>]", followed by
+ * the commit headers (only the first time a commit appears) and a tab-prefixed content line.
+ */
+export function parseBlamePorcelain(output: string): BlameLine[] {
+  const lines: BlameLine[] = [];
+  const commits = new Map<string, BlameCommitInfo>();
+
+  let current: { commit: string; originalLineNumber: number; lineNumber: number } | null = null;
+  let info: BlameCommitInfo | null = null;
+
+  for (const line of output.split('\n')) {
+    if (line.startsWith('\t')) {
+      if (!current || !info) continue;
+
+      const date = new Date(info.date);
+      lines.push({
+        lineNumber: current.lineNumber,
+        originalLineNumber: current.originalLineNumber,
+        content: line.slice(1),
+        commit: current.commit,
+        shortHash: current.commit.slice(0, 7),
+        author: info.author,
+        authorEmail: info.authorEmail,
+        date: info.date,
+        relativeDate: getRelativeDate(date),
+        summary: info.summary,
+        originalPath: info.filename,
+        previous: info.previous,
+        isUncommitted: current.commit === UNCOMMITTED_HASH,
+      });
+      current = null;
+      continue;
+    }
+
+    const headerMatch = line.match(/^([0-9a-f]{40}) (\d+) (\d+)(?: \d+)?$/);
+    if (headerMatch) {
+      const [, commit, originalLine, finalLine] = headerMatch;
+      current = {
+        commit,
+        originalLineNumber: parseInt(originalLine, 10),
+        lineNumber: parseInt(finalLine, 10),
+      };
+
+      info = commits.get(commit) ?? null;
+      if (!info) {
+        info = { author: '', authorEmail: '', date: '', summary: '', filename: '' };
+        commits.set(commit, info);
+      }
+      continue;
+    }
+
+    if (!info) continue;
+
+    const spaceIndex = line.indexOf(' ');
+    const key = spaceIndex === -1 ? line : line.slice(0, spaceIndex);
+    const value = spaceIndex === -1 ? '' : line.slice(spaceIndex + 1);
+
+    switch (key) {
+      case 'author':
+        info.author = value;
+        break;
+      case 'author-mail':
+        info.authorEmail = value.replace(/^<|>$/g, '');
+        break;
+      case 'author-time':
+        info.date = new Date(parseInt(value, 10) * 1000).toISOString();
+        break;
+      case 'summary':
+        info.summary = value;
+        break;
+      case 'filename':
+        info.filename = value;
+        break;
+      case 'previous': {
+        // previous <hash> <filename>
+        const separatorIndex = value.indexOf(' ');
+        if (separatorIndex !== -1) {
+          info.previous = {
+            commit: value.slice(0, separatorIndex),
+            path: value.slice(separatorIndex + 1),
+          };
+        }
+        break;
+      }
+    }
+  }
+
+  return lines;
+}
+
 /**
  * Convert a date to relative time (e.g., "2 hours ago")
  */
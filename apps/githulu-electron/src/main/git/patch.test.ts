@@ -0,0 +1,169 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseUnifiedDiff } from './parser.js';
+import { buildPatch } from './patch.js';
+
+const FILE_HEADER = [
+  'diff --git a/file.txt b/file.txt',
+  'index 1111111..2222222 100644',
+  '--- a/file.txt',
+  '+++ b/file.txt',
+];
+
+// One hunk replacing "b" and adding "d", then a second hunk further down
+const DIFF = [
+  ...FILE_HEADER,
+  '@@ -1,3 +1,4 @@',
+  ' a',
+  '-b',
+  '+B',
+  ' c',
+  '+d',
+  '@@ -10,2 +11,2 @@',
+  ' x',
+  '-y',
+  '+Y',
+  '',
+].join('\n');
+
+test('parseUnifiedDiff splits the file header from the hunks', () => {
+  const diff = parseUnifiedDiff(DIFF);
+
+  assert.deepEqual(diff.header, FILE_HEADER);
+  assert.equal(diff.hunks.length, 2);
+  assert.equal(diff.hunks[0].header, '@@ -1,3 +1,4 @@');
+  assert.deepEqual(
+    diff.hunks[0].lines.map((line) => [line.type, line.content]),
+    [
+      ['context', 'a'],
+      ['deletion', 'b'],
+      ['addition', 'B'],
+      ['context', 'c'],
+      ['addition', 'd'],
+    ]
+  );
+  assert.equal(diff.hunks[1].lines[1].oldLineNumber, 11);
+  assert.equal(diff.hunks[1].lines[2].newLineNumber, 12);
+});
+
+test('parseUnifiedDiff keeps lines that look like file headers inside a hunk', () => {
+  const diff = parseUnifiedDiff(
+    [...FILE_HEADER, '@@ -1,2 +1,2 @@', '--- a', '+++ b', ' kept', ''].join('\n')
+  );
+
+  assert.deepEqual(diff.header, FILE_HEADER);
+  assert.deepEqual(
+    diff.hunks[0].lines.map((line) => [line.type, line.content]),
+    [
+      ['deletion', '-- a'],
+      ['addition', '++ b'],
+      ['context', 'kept'],
+    ]
+  );
+});
+
+test('parseUnifiedDiff keeps trailing whitespace and marks a missing final newline', () => {
+  const diff = parseUnifiedDiff(
+    [...FILE_HEADER, '@@ -1 +1 @@', '-end  ', '\\ No newline at end of file', '+end', ''].join('\n')
+  );
+
+  const [deletion, addition] = diff.hunks[0].lines;
+  assert.equal(deletion.content, 'end  ');
+  assert.equal(deletion.noNewline, true);
+  assert.equal(addition.noNewline, undefined);
+});
+
+test('buildPatch stages a later hunk on its own at its position in the index', () => {
+  const diff = parseUnifiedDiff(DIFF);
+  const patch = buildPatch(
+    'file.txt',
+    diff,
+    [{ hunkIndex: 1, header: '@@ -10,2 +11,2 @@' }],
+    false
+  );
+
+  assert.equal(patch, [...FILE_HEADER, '@@ -10,2 +10,2 @@', ' x', '-y', '+Y', ''].join('\n'));
+});
+
+test('buildPatch stages selected lines, dropping other additions and keeping deletions', () => {
+  const diff = parseUnifiedDiff(DIFF);
+  const patch = buildPatch(
+    'file.txt',
+    diff,
+    [{ hunkIndex: 0, header: '@@ -1,3 +1,4 @@', lineIndexes: [4] }],
+    false
+  );
+
+  assert.equal(patch, [...FILE_HEADER, '@@ -1,3 +1,4 @@', ' a', ' b', ' c', '+d', ''].join('\n'));
+});
+
+test('buildPatch unstages selected lines against the new side', () => {
+  const diff = parseUnifiedDiff(DIFF);
+  const patch = buildPatch(
+    'file.txt',
+    diff,
+    [{ hunkIndex: 0, header: '@@ -1,3 +1,4 @@', lineIndexes: [1] }],
+    true
+  );
+
+  assert.equal(
+    patch,
+    [...FILE_HEADER, '@@ -1,5 +1,4 @@', ' a', '-b', ' B', ' c', ' d', ''].join('\n')
+  );
+});
+
+test('buildPatch returns null when only context is selected', () => {
+  const diff = parseUnifiedDiff(DIFF);
+  const patch = buildPatch(
+    'file.txt',
+    diff,
+    [{ hunkIndex: 0, header: '@@ -1,3 +1,4 @@', lineIndexes: [0, 3] }],
+    false
+  );
+
+  assert.equal(patch, null);
+});
+
+test('buildPatch rejects a selection made on an outdated diff', () => {
+  const diff = parseUnifiedDiff(DIFF);
+
+  assert.throws(
+    () => buildPatch('file.txt', diff, [{ hunkIndex: 0, header: '@@ -1,2 +1,2 @@' }], false),
+    /diff has changed/
+  );
+});
+
+test('buildPatch applies part of a new file as a modification', () => {
+  const diff = parseUnifiedDiff(
+    [
+      'diff --git a/new.txt b/new.txt',
+      'new file mode 100644',
+      'index 0000000..3333333',
+      '--- /dev/null',
+      '+++ b/new.txt',
+      '@@ -0,0 +1,2 @@',
+      '+one',
+      '+two',
+      '',
+    ].join('\n')
+  );
+  const patch = buildPatch(
+    'new.txt',
+    diff,
+    [{ hunkIndex: 0, header: '@@ -0,0 +1,2 @@', lineIndexes: [0] }],
+    false
+  );
+
+  assert.equal(
+    patch,
+    [
+      'diff --git a/new.txt b/new.txt',
+      'index 0000000..3333333',
+      '--- a/new.txt',
+      '+++ b/new.txt',
+      '@@ -0,0 +1,1 @@',
+      '+one',
+      '',
+    ].join('\n')
+  );
+});
@@ -0,0 +1,180 @@
+import type { HunkSelection } from '../../shared/types.js';
+import type { ParsedDiff, DiffHunk, DiffLineInfo } from './parser.js';
+
+/**
+ * Validate hunk selections received from the renderer
+ */
+export function validateHunkSelections(selections: HunkSelection[]): void {
+  if (!Array.isArray(selections) || selections.length === 0) {
+    throw new Error('No hunks selected');
+  }
+
+  for (const selection of selections) {
+    if (!selection || !Number.isInteger(selection.hunkIndex) || selection.hunkIndex < 0) {
+      throw new Error('Invalid hunk index');
+    }
+
+    if (typeof selection.header !== 'string') {
+      throw new Error('Invalid hunk header');
+    }
+
+    if (
+      selection.lineIndexes !== undefined &&
+      (!Array.isArray(selection.lineIndexes) ||
+        !selection.lineIndexes.every((index) => Number.isInteger(index) && index >= 0))
+    ) {
+      throw new Error('Invalid line selection');
+    }
+  }
+}
+
+/**
+ * Build a patch containing only the selected hunks/lines of a diff.
+ *
+ * Forward patches (staging) apply to the old side of the diff, so unselected
+ * additions are dropped and unselected deletions become context. Reverse
+ * patches (unstaging, discarding) are applied with `git apply -R` to the new
+ * side, so it's the other way round. Returns null if nothing is selected.
+ */
+export function buildPatch(
+  filePath: string,
+  diff: ParsedDiff,
+  selections: HunkSelection[],
+  reverse: boolean
+): string | null {
+  const selectedHunks = new Map<number, Set<number> | null>();
+
+  for (const selection of selections) {
+    const hunk = diff.hunks[selection.hunkIndex];
+    if (!hunk || hunk.header !== selection.header) {
+      throw new Error('The diff has changed since it was displayed. Refresh and try again.');
+    }
+
+    selectedHunks.set(
+      selection.hunkIndex,
+      selection.lineIndexes ? new Set(selection.lineIndexes) : null
+    );
+  }
+
+  const body: string[] = [];
+  let isPartial = selectedHunks.size < diff.hunks.length;
+  // Line count difference introduced by earlier hunks, used to place later ones
+  let offset = 0;
+
+  diff.hunks.forEach((hunk, hunkIndex) => {
+    if (!selectedHunks.has(hunkIndex)) return;
+
+    const selectedLines = selectedHunks.get(hunkIndex) ?? null;
+    const result = buildHunk(hunk, selectedLines, reverse);
+    if (!result) return;
+
+    if (result.isPartial) {
+      isPartial = true;
+    }
+
+    // The anchor side is the one the patch is applied to and keeps its original position
+    const anchorStart = reverse ? hunk.newStart : hunk.oldStart;
+    const anchorCount = reverse ? result.newCount : result.oldCount;
+    const otherCount = reverse ? result.oldCount : result.newCount;
+
+    let otherStart = anchorStart + offset;
+    // A side with no lines is addressed by the line before it
+    if (anchorCount === 0 && otherCount > 0) otherStart += 1;
+    if (otherCount === 0 && anchorCount > 0) otherStart -= 1;
+
+    offset += otherCount - anchorCount;
+
+    const oldStart = reverse ? otherStart : anchorStart;
+    const newStart = reverse ? anchorStart : otherStart;
+
+    body.push(`@@ -${oldStart},${result.oldCount} +${newStart},${result.newCount} @@`);
+    body.push(...result.lines);
+  });
+
+  if (body.length === 0) {
+    return null;
+  }
+
+  return [...buildFileHeader(filePath, diff.header, isPartial), ...body].join('\n') + '\n';
+}
+
+function buildHunk(
+  hunk: DiffHunk,
+  selectedLines: Set<number> | null,
+  reverse: boolean
+): { lines: string[]; oldCount: number; newCount: number; isPartial: boolean } | null {
+  const lines: string[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  let hasChanges = false;
+  let isPartial = false;
+
+  const push = (prefix: string, line: DiffLineInfo) => {
+    lines.push(`${prefix}${line.content}`);
+    if (line.noNewline) {
+      lines.push('\\ No newline at end of file');
+    }
+  };
+
+  hunk.lines.forEach((line, lineIndex) => {
+    const isSelected = selectedLines === null || selectedLines.has(lineIndex);
+
+    if (line.type === 'context') {
+      push(' ', line);
+      oldCount++;
+      newCount++;
+      return;
+    }
+
+    if (isSelected) {
+      push(line.type === 'addition' ? '+' : '-', line);
+      if (line.type === 'addition') newCount++;
+      else oldCount++;
+      hasChanges = true;
+      return;
+    }
+
+    isPartial = true;
+
+    // Unselected lines stay as they are on the side the patch is applied to
+    const keepAsContext = reverse ? line.type === 'addition' : line.type === 'deletion';
+    if (keepAsContext) {
+      push(' ', line);
+      oldCount++;
+      newCount++;
+    }
+  });
+
+  return hasChanges ? { lines, oldCount, newCount, isPartial } : null;
+}
+
+/**
+ * Reuse the diff's own file header, except that a partial patch of a new or
+ * deleted file has to be applied as a modification of the existing file.
+ */
+function buildFileHeader(filePath: string, header: string[], isPartial: boolean): string[] {
+  const fallback = [
+    `diff --git a/${filePath} b/${filePath}`,
+    `--- a/${filePath}`,
+    `+++ b/${filePath}`,
+  ];
+
+  if (
+    !header.some((line) => line.startsWith('--- ')) ||
+    !header.some((line) => line.startsWith('+++ '))
+  ) {
+    return fallback;
+  }
+
+  if (!isPartial) {
+    return header;
+  }
+
+  return header
+    .filter((line) => !line.startsWith('new file mode') && !line.startsWith('deleted file mode'))
+    .map((line) => {
+      if (line === '--- /dev/null') return `--- a/${filePath}`;
+      if (line === '+++ /dev/null') return `+++ b/${filePath}`;
+      return line;
+    });
+}
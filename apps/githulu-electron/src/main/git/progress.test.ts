@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseProgressLine } from './progress.js';
+
+test('parseProgressLine reads a phase with a percentage and transfer rate', () => {
+  assert.deepEqual(parseProgressLine('Receiving objects:  45% (450/1000), 1.20 MiB | 2.40 MiB/s'), {
+    phase: 'Receiving objects',
+    percent: 45,
+    current: 450,
+    total: 1000,
+    transferred: '1.20 MiB',
+    throughput: '2.40 MiB/s',
+    done: false,
+  });
+});
+
+test('parseProgressLine reads a finished remote phase', () => {
+  assert.deepEqual(parseProgressLine('remote: Compressing objects: 100% (3/3), done.'), {
+    phase: 'Compressing objects',
+    percent: 100,
+    current: 3,
+    total: 3,
+    transferred: null,
+    throughput: null,
+    done: true,
+  });
+});
+
+test('parseProgressLine reads a phase that only counts', () => {
+  assert.deepEqual(parseProgressLine('remote: Enumerating objects: 5, done.'), {
+    phase: 'Enumerating objects',
+    percent: null,
+    current: 5,
+    total: null,
+    transferred: null,
+    throughput: null,
+    done: true,
+  });
+});
+
+test('parseProgressLine ignores other output', () => {
+  assert.equal(parseProgressLine("Cloning into 'repo'..."), null);
+  assert.equal(parseProgressLine('From github.com:owner/repo'), null);
+  assert.equal(parseProgressLine(' * branch            main       -> FETCH_HEAD'), null);
+  assert.equal(parseProgressLine(''), null);
+});
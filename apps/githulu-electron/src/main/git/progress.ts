@@ -0,0 +1,46 @@
+import type { GitProgress } from '../../shared/types.js';
+
+// "<phase>: <percent>% (<current>/<total>)[, <transferred> | <throughput>][, done.]",
+// e.g. "Receiving objects:  45% (450/1000), 1.20 MiB | 2.40 MiB/s"
+const PERCENT_PATTERN =
+  /^(?:remote: )?([A-Za-z][\w ]*?):\s+(\d+)% \((\d+)\/(\d+)\)(?:, ([^|,]+?) \| ([^,]+?))?(, done\.?)?\s*$/;
+
+// "<phase>: <count>[, done.]", e.g. "remote: Enumerating objects: 5, done."
+const COUNT_PATTERN = /^(?:remote: )?([A-Za-z][\w ]*?):\s+(\d+)(, done\.?)?\s*$/;
+
+/**
+ * Parse one of git's progress lines, as printed on stderr with `--progress`.
+ * Returns null for any other output.
+ */
+export function parseProgressLine(line: string): GitProgress | null {
+  const percentMatch = line.match(PERCENT_PATTERN);
+  if (percentMatch) {
+    const [, phase, percent, current, total, transferred, throughput, done] = percentMatch;
+    return {
+      phase,
+      percent: Number(percent),
+      current: Number(current),
+      total: Number(total),
+      transferred: transferred ?? null,
+      throughput: throughput ?? null,
+      done: !!done,
+    };
+  }
+
+  // Phases without a known total only count up
+  const countMatch = line.match(COUNT_PATTERN);
+  if (countMatch) {
+    const [, phase, current, done] = countMatch;
+    return {
+      phase,
+      percent: null,
+      current: Number(current),
+      total: null,
+      transferred: null,
+      throughput: null,
+      done: !!done,
+    };
+  }
+
+  return null;
+}
@@ -5,15 +5,18 @@
  * - Per-repo queues to prevent lock collisions
  * - Priority levels (high for status/diff, medium for fetch/push, low for log/branches)
  * - Global concurrency limit
+ * - Cancellation of queued or running operations by opId
  */
 
 export type Priority = 'high' | 'medium' | 'low';
 
 interface QueuedOperation<T> {
   id: string;
+  opId?: string; // Set for long operations the renderer can cancel
   repoPath: string;
   priority: Priority;
-  execute: () => Promise<T>;
+  execute: (signal: AbortSignal) => Promise<T>;
+  controller: AbortController;
   resolve: (value: T) => void;
   reject: (error: Error) => void;
   createdAt: number;
@@ -31,26 +34,30 @@ const MAX_CONCURRENT = 3;
 // Per-repo queues
 const repoQueues = new Map<string, QueuedOperation<unknown>[]>();
 
-// Currently executing operations
-const executing = new Set<string>();
+// Currently executing operations by execution ID
+const executing = new Map<string, QueuedOperation<unknown>>();
 
 // Global operation counter for unique IDs
 let operationCounter = 0;
 
 /**
- * Queue a git operation
+ * Queue a git operation. Operations given an opId can be cancelled with
+ * cancelOperation; execute receives the signal to pass on to git.
  */
 export function queueOperation<T>(
   repoPath: string,
   priority: Priority,
-  execute: () => Promise<T>
+  execute: (signal: AbortSignal) => Promise<T>,
+  opId?: string
 ): Promise<T> {
   return new Promise((resolve, reject) => {
     const operation: QueuedOperation<T> = {
       id: `op_${++operationCounter}`,
+      opId,
       repoPath,
       priority,
       execute,
+      controller: new AbortController(),
       resolve: resolve as (value: unknown) => void,
       reject,
       createdAt: Date.now(),
@@ -107,7 +114,7 @@ function processQueues(): void {
 
   for (const [repoPath, queue] of repoQueues) {
     // Skip if this repo already has an operation executing
-    const isExecuting = Array.from(executing).some((id) => id.startsWith(`${repoPath}:`));
+    const isExecuting = Array.from(executing.keys()).some((id) => id.startsWith(`${repoPath}:`));
     if (isExecuting) {
       console.log(`[githulu:queue] Repo ${repoPath} already executing, skipping queue`);
       continue;
@@ -148,11 +155,11 @@ function processQueues(): void {
 
   // Execute
   const executionId = `${bestRepoPath}:${bestOp.id}`;
-  executing.add(executionId);
+  executing.set(executionId, bestOp);
 
   const operation = bestOp;
   operation
-    .execute()
+    .execute(operation.controller.signal)
     .then((result) => {
       console.log(`[githulu:queue] Operation ${bestOp!.id} completed successfully`);
       operation.resolve(result);
@@ -203,7 +210,48 @@ export function getQueueStats(): {
 }
 
 /**
- * Clear all queued operations for a repo
+ * Cancel an operation by its opId. A queued operation is rejected right away;
+ * a running one is aborted and rejects once git exits.
+ * Returns false if no such operation is queued or running.
+ */
+export function cancelOperation(opId: string): boolean {
+  for (const [repoPath, queue] of repoQueues) {
+    const index = queue.findIndex((op) => op.opId === opId);
+    if (index === -1) continue;
+
+    const [op] = queue.splice(index, 1);
+    if (queue.length === 0) {
+      repoQueues.delete(repoPath);
+    }
+    op.reject(new Error('Operation cancelled'));
+    return true;
+  }
+
+  for (const op of executing.values()) {
+    if (op.opId === opId) {
+      console.log(`[githulu:queue] Aborting operation ${op.id} (${opId})`);
+      op.controller.abort();
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Stop a running operation from being cancelled by its opId, for a step that
+ * mustn't be interrupted. Later cancelOperation calls for it return false.
+ */
+export function releaseOpId(opId: string): void {
+  for (const op of executing.values()) {
+    if (op.opId === opId) {
+      op.opId = undefined;
+    }
+  }
+}
+
+/**
+ * Clear all queued operations for a repo and abort the one running
  */
 export function clearRepoQueue(repoPath: string): void {
   const queue = repoQueues.get(repoPath);
@@ -213,6 +261,12 @@ export function clearRepoQueue(repoPath: string): void {
     }
     repoQueues.delete(repoPath);
   }
+
+  for (const [executionId, op] of executing) {
+    if (executionId.startsWith(`${repoPath}:`)) {
+      op.controller.abort();
+    }
+  }
 }
 
 /**
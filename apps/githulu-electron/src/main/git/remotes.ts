@@ -0,0 +1,83 @@
+import { runGitQuick, runGitLong } from './runner.js';
+import type { GitResult, RemoteInfo } from '../../shared/types.js';
+
+/**
+ * Configured remotes with their fetch and push URLs
+ */
+export async function listRemotes(repoPath: string): Promise<RemoteInfo[]> {
+  const result = await runGitQuick(repoPath, ['remote', '-v']);
+  if (!result.success) {
+    throw new Error(`Failed to list remotes: ${result.stderr}`);
+  }
+
+  const remotes = new Map<string, RemoteInfo>();
+  for (const line of result.stdout.split('\n').filter(Boolean)) {
+    // Format: NAME<TAB>URL (fetch|push)
+    const match = line.match(/^(\S+)\t(.*) \((fetch|push)\)$/);
+    if (!match) continue;
+
+    const [, name, url, kind] = match;
+    const remote = remotes.get(name) ?? { name, fetchUrl: '', pushUrl: '' };
+    if (kind === 'fetch') {
+      remote.fetchUrl = url;
+    } else {
+      remote.pushUrl = url;
+    }
+    remotes.set(name, remote);
+  }
+
+  return [...remotes.values()];
+}
+
+/**
+ * Remote to use when none is given: the one the branch (HEAD by default)
+ * tracks, otherwise origin, otherwise the first remote
+ */
+export async function resolveDefaultRemote(repoPath: string, branch?: string): Promise<string> {
+  const branchName =
+    branch ?? (await runGitQuick(repoPath, ['symbolic-ref', '--quiet', '--short', 'HEAD'])).stdout;
+
+  if (branchName) {
+    const tracked = await runGitQuick(repoPath, ['config', '--get', `branch.${branchName}.remote`]);
+    // "." means the upstream is a local branch
+    if (tracked.success && tracked.stdout && tracked.stdout !== '.') {
+      return tracked.stdout;
+    }
+  }
+
+  const remotes = await listRemotes(repoPath);
+  if (remotes.length === 0) {
+    throw new Error('No remotes configured');
+  }
+
+  return remotes.find((remote) => remote.name === 'origin')?.name ?? remotes[0].name;
+}
+
+/**
+ * Split a remote-tracking branch name like "upstream/feature/x" into the
+ * remote and the branch on it. Remote names may contain slashes, so the
+ * longest matching remote wins.
+ */
+export async function splitRemoteBranch(
+  repoPath: string,
+  remoteBranch: string
+): Promise<{ remote: string; branch: string } | null> {
+  const remotes = await listRemotes(repoPath);
+  const remote = remotes
+    .map((r) => r.name)
+    .filter((name) => remoteBranch.startsWith(`${name}/`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return remote ? { remote, branch: remoteBranch.slice(remote.length + 1) } : null;
+}
+
+/**
+ * Fetch every remote, pruning remote-tracking branches deleted upstream
+ */
+export async function fetchAllRemotes(
+  repoPath: string,
+  onProgress?: (line: string) => void,
+  signal?: AbortSignal
+): Promise<GitResult> {
+  return runGitLong(repoPath, ['fetch', '--all', '--progress', '--prune'], onProgress, signal);
+}
@@ -8,6 +8,9 @@ export interface RunGitOptions {
   timeout?: number;
   onProgress?: (line: string) => void;
   signal?: AbortSignal;
+  env?: Record<string, string>;
+  input?: string; // Written to stdin (e.g. a patch for `git apply -`)
+  rawOutput?: boolean; // Keep stdout exactly as written, e.g. for file contents
 }
 
 // Default timeouts
@@ -17,11 +20,51 @@ const LONG_TIMEOUT = 300_000; // 5 minutes for fetch/push
 // Store active processes for cancellation
 const activeProcesses = new Map<string, ChildProcess>();
 
+interface LineSplitter {
+  push: (text: string) => void;
+  flush: () => void;
+}
+
+/**
+ * Split a stream of output into lines for progress. Git rewrites progress
+ * lines in place by ending them with \r instead of \n, so each update is its
+ * own line. A line cut off at the end of a chunk is held until the rest of it
+ * arrives, or until flush() at the end of the output.
+ */
+function createLineSplitter(onLine: (line: string) => void): LineSplitter {
+  let partial = '';
+
+  const emit = (line: string) => {
+    if (line.trim()) onLine(line);
+  };
+
+  return {
+    push(text) {
+      const lines = (partial + text).split(/[\r\n]+/);
+      partial = lines.pop() ?? '';
+      lines.forEach(emit);
+    },
+    flush() {
+      emit(partial);
+      partial = '';
+    },
+  };
+}
+
 /**
  * Run a git command and return the result
  */
 export async function runGit(options: RunGitOptions): Promise<GitResult> {
-  const { repoPath, args, timeout = DEFAULT_TIMEOUT, onProgress, signal } = options;
+  const {
+    repoPath,
+    args,
+    timeout = DEFAULT_TIMEOUT,
+    onProgress,
+    signal,
+    env,
+    input,
+    rawOutput,
+  } = options;
 
   const gitPath = getGitPath();
   const fullArgs = ['-C', repoPath, ...args];
@@ -39,9 +82,17 @@ export async function runGit(options: RunGitOptions): Promise<GitResult> {
         // Ensure consistent output
         GIT_TERMINAL_PROMPT: '0',
         LANG: 'en_US.UTF-8',
+        ...env,
       },
     });
 
+    if (input !== undefined) {
+      // git may exit before reading all of it (e.g. on a bad patch), which fails the write
+      // with EPIPE. The exit code and stderr already report why, so the error is ignored.
+      child.stdin.on('error', () => {});
+      child.stdin.end(input, 'utf-8');
+    }
+
     const processId = `${repoPath}:${Date.now()}`;
     activeProcesses.set(processId, child);
 
@@ -49,6 +100,10 @@ export async function runGit(options: RunGitOptions): Promise<GitResult> {
     let stderr = '';
     let killed = false;
 
+    // One splitter per stream, so their partial lines don't mix
+    const stdoutLines = onProgress ? createLineSplitter(onProgress) : null;
+    const stderrLines = onProgress ? createLineSplitter(onProgress) : null;
+
     // Handle abort signal
     const abortHandler = () => {
       killed = true;
@@ -68,12 +123,7 @@ export async function runGit(options: RunGitOptions): Promise<GitResult> {
       stdout += text;
 
       // Stream progress for operations that output to stdout
-      if (onProgress) {
-        const lines = text.split('\n').filter(Boolean);
-        for (const line of lines) {
-          onProgress(line);
-        }
-      }
+      stdoutLines?.push(text);
     });
 
     // Collect stderr (often used for progress in git)
@@ -82,15 +132,12 @@ export async function runGit(options: RunGitOptions): Promise<GitResult> {
       stderr += text;
 
       // Stream progress
-      if (onProgress) {
-        const lines = text.split('\n').filter(Boolean);
-        for (const line of lines) {
-          onProgress(line);
-        }
-      }
+      stderrLines?.push(text);
     });
 
     child.on('close', (code) => {
+      stdoutLines?.flush();
+      stderrLines?.flush();
       clearTimeout(timeoutId);
       signal?.removeEventListener('abort', abortHandler);
       activeProcesses.delete(processId);
@@ -107,7 +154,7 @@ export async function runGit(options: RunGitOptions): Promise<GitResult> {
 
       resolve({
         success: code === 0,
-        stdout: stdout.trim(),
+        stdout: rawOutput ? stdout : stdout.trim(),
         stderr: stderr.trim(),
         exitCode: code ?? 1,
       });
@@ -136,7 +183,8 @@ export async function runGitLong(
   repoPath: string,
   args: string[],
   onProgress?: (line: string) => void,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  env?: Record<string, string>
 ): Promise<GitResult> {
   return runGit({
     repoPath,
@@ -144,6 +192,7 @@ export async function runGitLong(
     timeout: LONG_TIMEOUT,
     onProgress,
     signal,
+    env,
   });
 }
 
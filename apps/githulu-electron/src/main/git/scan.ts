@@ -0,0 +1,46 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+
+// How many folders deep to look below the scanned folder
+const MAX_SCAN_DEPTH = 5;
+
+// Folders that never hold repos worth bookmarking and can be huge
+const SKIPPED_FOLDERS = new Set(['node_modules', 'vendor', 'target', 'dist', 'build']);
+
+/**
+ * Find repositories in a folder and the folders below it. Repos aren't
+ * searched for nested ones (e.g. submodules), and hidden folders and
+ * symlinks are skipped.
+ */
+export async function findRepositories(rootPath: string): Promise<string[]> {
+  const found: string[] = [];
+
+  async function scan(folderPath: string, depth: number): Promise<void> {
+    let entries;
+    try {
+      entries = await fs.readdir(folderPath, { withFileTypes: true });
+    } catch {
+      // Unreadable folders are skipped
+      return;
+    }
+
+    // `.git` is a folder in most repos and a file in worktrees and submodules
+    if (entries.some((entry) => entry.name === '.git')) {
+      found.push(folderPath);
+      return;
+    }
+
+    if (depth >= MAX_SCAN_DEPTH) {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (entry.isDirectory() && !entry.name.startsWith('.') && !SKIPPED_FOLDERS.has(entry.name)) {
+        await scan(path.join(folderPath, entry.name), depth + 1);
+      }
+    }
+  }
+
+  await scan(path.resolve(rootPath), 0);
+  return found.sort();
+}
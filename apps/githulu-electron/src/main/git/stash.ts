@@ -0,0 +1,68 @@
+import { runGitQuick } from './runner.js';
+import type { StashDetailResult, StashFileChange } from '../../shared/types.js';
+
+/**
+ * Files changed by a stash, each with its diff, and how many commits HEAD has
+ * gained since the stash was made.
+ *
+ * A stash commit's first parent is the commit it was made on (its base) and
+ * its tree holds the stashed tracked changes; a third parent, when present,
+ * is a root commit holding the untracked files stashed with `-u`.
+ */
+export async function showStash(repoPath: string, index: number): Promise<StashDetailResult> {
+  const ref = `stash@{${index}}`;
+  const revResult = await runGitQuick(repoPath, ['rev-list', '--parents', '-n', '1', ref]);
+  if (!revResult.success) {
+    throw new Error(`Failed to read ${ref}: ${revResult.stderr}`);
+  }
+
+  const [hash, baseHash, , untrackedHash] = revResult.stdout.split(' ');
+
+  const files = await listChanges(repoPath, ['diff', '-M', baseHash, hash], false);
+  if (untrackedHash) {
+    // A root commit is shown as adding all of its files
+    files.push(...(await listChanges(repoPath, ['show', '--format=', untrackedHash], true)));
+  }
+
+  // How far HEAD has moved on since the stash was made
+  const countResult = await runGitQuick(repoPath, ['rev-list', '--count', `${baseHash}..HEAD`]);
+  const commitsSinceBase = countResult.success ? parseInt(countResult.stdout, 10) : null;
+
+  return { index, hash, baseHash, commitsSinceBase, files };
+}
+
+/**
+ * Changed files of a diff command, paired with their part of the patch.
+ * Both outputs come from the same diff, so the files are in the same order.
+ */
+async function listChanges(
+  repoPath: string,
+  diffArgs: string[],
+  untracked: boolean
+): Promise<StashFileChange[]> {
+  const namesResult = await runGitQuick(repoPath, [...diffArgs, '--name-status']);
+  const patchResult = await runGitQuick(repoPath, [...diffArgs, '--no-color']);
+  if (!namesResult.success || !patchResult.success) {
+    throw new Error(`Failed to read stash changes: ${namesResult.stderr || patchResult.stderr}`);
+  }
+
+  const patches = patchResult.stdout.split(/^(?=diff --git )/m).filter(Boolean);
+
+  return namesResult.stdout
+    .split('\n')
+    .filter(Boolean)
+    .map((line, i) => {
+      // Format: STATUS<TAB>FILE or STATUS<TAB>OLD_FILE<TAB>NEW_FILE for renames
+      const parts = line.split('\t');
+      const status = parts[0].charAt(0);
+      const renamed = status === 'R' || status === 'C';
+
+      return {
+        path: renamed ? parts[2] || parts[1] : parts[1],
+        status,
+        oldPath: renamed ? parts[1] : undefined,
+        untracked,
+        diffText: patches[i] ?? '',
+      };
+    });
+}
@@ -0,0 +1,40 @@
+import { runGitQuick } from './runner.js';
+import { parseStatusPorcelainV2, detectRebaseState } from './parser.js';
+import type { RepoStatus } from '../../shared/types.js';
+
+/**
+ * Read the status of a repo: branch and tracking info, changed files and the
+ * rebase or other sequencer operation in progress. Shared by explicit status
+ * fetches and the watcher's refreshes, so both report the same state.
+ */
+export async function readRepoStatus(repoId: string, repoPath: string): Promise<RepoStatus> {
+  const statusResult = await runGitQuick(repoPath, ['status', '--porcelain=v2', '-b']);
+
+  if (!statusResult.success) {
+    throw new Error(`Failed to get status: ${statusResult.stderr}`);
+  }
+
+  const parsed = parseStatusPorcelainV2(statusResult.stdout);
+  const rebaseState = await detectRebaseState(repoPath);
+
+  // Conflicts are listed even without an operation (e.g. after a squash merge)
+  rebaseState.conflicts = parsed.conflicts.map((c) => c.path);
+
+  return {
+    repoId,
+    path: repoPath,
+    branch: parsed.branch,
+    upstream: parsed.upstream,
+    ahead: parsed.ahead,
+    behind: parsed.behind,
+    isDirty: parsed.staged.length > 0 || parsed.unstaged.length > 0 || parsed.untracked.length > 0,
+    rebase: rebaseState,
+    operation: rebaseState.operation ?? null,
+    changes: {
+      staged: parsed.staged,
+      unstaged: parsed.unstaged,
+      untracked: parsed.untracked,
+    },
+    lastUpdatedAt: Date.now(),
+  };
+}
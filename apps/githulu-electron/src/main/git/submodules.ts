@@ -0,0 +1,187 @@
+import * as path from 'node:path';
+import { runGitQuick, runGitLong, getRepoRoot } from './runner.js';
+import type { CommitInfo, GitResult, SubmoduleDiff, SubmoduleInfo } from '../../shared/types.js';
+
+// Most commits listed for a submodule change
+const SUBMODULE_LOG_LIMIT = 100;
+
+// Unit and record separators keep subjects with any text intact
+const LOG_FORMAT = '%H%x1f%h%x1f%P%x1f%s%x1f%an%x1f%ae%x1f%aI%x1f%ar%x1e';
+
+// Mode of a gitlink (a submodule's entry in the tree), as shown in diff headers
+const GITLINK_MODE_PATTERN = /^(?:index \S+ |(?:new|deleted) file mode |(?:old|new) mode )160000$/;
+
+const STATE_BY_PREFIX: Record<string, SubmoduleInfo['state']> = {
+  '-': 'uninitialized',
+  '+': 'outOfDate',
+  U: 'conflict',
+  ' ': 'upToDate',
+};
+
+/**
+ * Submodules registered in the repo with the commit each is at
+ */
+export async function listSubmodules(repoPath: string): Promise<SubmoduleInfo[]> {
+  const result = await runGitQuick(repoPath, ['submodule', 'status']);
+  if (!result.success) {
+    throw new Error(`Failed to list submodules: ${result.stderr}`);
+  }
+
+  const submodules: SubmoduleInfo[] = [];
+  // stdout is trimmed, so the first line may have lost its leading space
+  for (const line of result.stdout.split('\n').filter(Boolean)) {
+    // Format: <state><commit> <path>[ (<describe>)]
+    const match = line.match(/^([ +\-U]?)([0-9a-f]+) (.+?)(?: \((.*)\))?$/);
+    if (!match) continue;
+
+    const [, prefix, commit, submodulePath, describe] = match;
+    submodules.push({
+      path: submodulePath,
+      commit,
+      state: STATE_BY_PREFIX[prefix || ' '],
+      describe: describe || null,
+    });
+  }
+
+  return submodules;
+}
+
+/**
+ * Register submodules' URLs in the repo config without checking them out
+ */
+export async function initSubmodules(repoPath: string, paths: string[]): Promise<GitResult> {
+  return runGitQuick(repoPath, ['submodule', 'init', '--', ...paths]);
+}
+
+/**
+ * Check out the recorded commit of each submodule, initializing and cloning
+ * any that aren't yet, including nested ones
+ */
+export async function updateSubmodules(
+  repoPath: string,
+  paths: string[],
+  onProgress?: (line: string) => void,
+  signal?: AbortSignal
+): Promise<GitResult> {
+  return runGitLong(
+    repoPath,
+    ['submodule', 'update', '--init', '--recursive', '--progress', '--', ...paths],
+    onProgress,
+    signal
+  );
+}
+
+/**
+ * Copy submodule URLs from .gitmodules into the repo config after they changed upstream
+ */
+export async function syncSubmodules(repoPath: string, paths: string[]): Promise<GitResult> {
+  return runGitQuick(repoPath, ['submodule', 'sync', '--recursive', '--', ...paths]);
+}
+
+/**
+ * Read the commit range of a submodule from its diff, which has
+ * "-Subproject commit <old>" and "+Subproject commit <new>[-dirty]" lines,
+ * and list the commits in between from the submodule's own history.
+ * Returns undefined when the diff isn't for a submodule.
+ */
+export async function loadSubmoduleDiff(
+  repoPath: string,
+  submodulePath: string,
+  diffText: string
+): Promise<SubmoduleDiff | undefined> {
+  let oldCommit: string | null = null;
+  let newCommit: string | null = null;
+  let dirty = false;
+
+  // Only a gitlink's diff is a submodule's; a file may contain "Subproject commit" lines too
+  const lines = diffText.split('\n');
+  const headerEnd = lines.findIndex((line) => line.startsWith('@@'));
+  const header = headerEnd === -1 ? lines : lines.slice(0, headerEnd);
+  if (!header.some((line) => GITLINK_MODE_PATTERN.test(line))) {
+    return undefined;
+  }
+
+  for (const line of lines) {
+    const match = line.match(/^([-+])Subproject commit ([0-9a-f]+)(-dirty)?$/);
+    if (!match) continue;
+
+    if (match[1] === '-') {
+      oldCommit = match[2];
+    } else {
+      newCommit = match[2];
+      dirty = !!match[3];
+    }
+  }
+
+  if (!oldCommit && !newCommit) {
+    return undefined;
+  }
+
+  const submoduleDiff: SubmoduleDiff = {
+    oldCommit,
+    newCommit,
+    dirty,
+    rewound: false,
+    commits: [],
+  };
+
+  // Nothing to list for an added or removed submodule, or when only its content changed
+  if (!oldCommit || !newCommit || oldCommit === newCommit) {
+    return submoduleDiff;
+  }
+
+  // Before it's checked out the folder is empty and git would find the superproject instead
+  const submoduleRepo = path.join(repoPath, submodulePath);
+  if ((await getRepoRoot(submoduleRepo)) !== submoduleRepo) {
+    submoduleDiff.commits = null;
+    return submoduleDiff;
+  }
+
+  submoduleDiff.commits = await logRange(submoduleRepo, `${oldCommit}..${newCommit}`);
+
+  // An empty range means the submodule moved back; list the commits it dropped
+  if (submoduleDiff.commits?.length === 0) {
+    submoduleDiff.commits = await logRange(submoduleRepo, `${newCommit}..${oldCommit}`);
+    submoduleDiff.rewound = true;
+  }
+
+  return submoduleDiff;
+}
+
+/**
+ * Commits in a range of a submodule's history, or null when it doesn't
+ * have them, e.g. before a fetch
+ */
+async function logRange(submoduleRepo: string, range: string): Promise<CommitInfo[] | null> {
+  const result = await runGitQuick(submoduleRepo, [
+    'log',
+    `--max-count=${SUBMODULE_LOG_LIMIT}`,
+    `--format=${LOG_FORMAT}`,
+    range,
+    '--',
+  ]);
+  if (!result.success) {
+    return null;
+  }
+
+  return result.stdout
+    .split('\x1e')
+    .map((record) => record.trim())
+    .filter(Boolean)
+    .map((record) => {
+      const [hash, shortHash, parents, subject, author, authorEmail, date, relativeDate] =
+        record.split('\x1f');
+      return {
+        hash,
+        shortHash,
+        parents: parents ? parents.split(' ') : [],
+        subject,
+        body: '',
+        author,
+        authorEmail,
+        date,
+        relativeDate,
+        refs: [],
+      };
+    });
+}
@@ -0,0 +1,67 @@
+import { runGit, runGitQuick } from './runner.js';
+import type { GitResult } from '../../shared/types.js';
+
+// External tools stay open until the user closes them
+const TOOL_TIMEOUT = 60 * 60 * 1000;
+
+/**
+ * Open a file's changes in the user's configured `git difftool`.
+ * Resolves when the tool is closed.
+ */
+export async function runDiffTool(
+  repoPath: string,
+  filePath: string,
+  staged: boolean
+): Promise<GitResult> {
+  const gui = await getConfiguredTool(repoPath, 'diff.guitool');
+  if (!gui && !(await getConfiguredTool(repoPath, 'diff.tool'))) {
+    return noToolResult('diff', 'diff.tool');
+  }
+
+  const args = ['difftool', '--no-prompt'];
+  if (gui) args.push('--gui');
+  if (staged) args.push('--cached');
+  args.push('--', filePath);
+
+  return runTool(repoPath, args);
+}
+
+/**
+ * Resolve a conflicted file in the user's configured `git mergetool`.
+ * Resolves when the tool is closed; git stages the file if the merge succeeded.
+ */
+export async function runMergeTool(repoPath: string, filePath: string): Promise<GitResult> {
+  const gui = await getConfiguredTool(repoPath, 'merge.guitool');
+  if (!gui && !(await getConfiguredTool(repoPath, 'merge.tool'))) {
+    return noToolResult('merge', 'merge.tool');
+  }
+
+  const args = ['mergetool', '--no-prompt'];
+  if (gui) args.push('--gui');
+  args.push('--', filePath);
+
+  return runTool(repoPath, args);
+}
+
+async function getConfiguredTool(repoPath: string, key: string): Promise<string | null> {
+  const result = await runGitQuick(repoPath, ['config', '--get', key]);
+  return result.success && result.stdout ? result.stdout : null;
+}
+
+/**
+ * Without a configured tool git falls back to a terminal one like vimdiff,
+ * which can't run without a terminal
+ */
+function noToolResult(kind: 'diff' | 'merge', key: string): GitResult {
+  return {
+    success: false,
+    stdout: '',
+    stderr: `No ${kind} tool configured. Set one with: git config --global ${key} <tool>`,
+    exitCode: 1,
+  };
+}
+
+function runTool(repoPath: string, args: string[]): Promise<GitResult> {
+  // Empty stdin answers any question git asks after the tool exits with "no"
+  return runGit({ repoPath, args, timeout: TOOL_TIMEOUT, input: '' });
+}
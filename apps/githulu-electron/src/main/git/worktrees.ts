@@ -0,0 +1,101 @@
+import * as path from 'node:path';
+import { runGitQuick } from './runner.js';
+import type { GitResult, WorktreeInfo, AddWorktreeOptions } from '../../shared/types.js';
+
+/**
+ * Working trees of a repo, the main one first, with their checked out branch
+ * and whether they have uncommitted changes
+ */
+export async function listWorktrees(repoPath: string): Promise<WorktreeInfo[]> {
+  const result = await runGitQuick(repoPath, ['worktree', 'list', '--porcelain']);
+  if (!result.success) {
+    throw new Error(`Failed to list worktrees: ${result.stderr}`);
+  }
+
+  const worktrees: WorktreeInfo[] = [];
+  let isFirst = true;
+
+  // One block of "key value" lines per worktree, separated by blank lines
+  for (const block of result.stdout.split(/\n\n+/).filter(Boolean)) {
+    const fields = new Map<string, string>();
+    for (const line of block.split('\n')) {
+      const [key, ...value] = line.split(' ');
+      fields.set(key, value.join(' '));
+    }
+
+    const worktreePath = fields.get('worktree');
+    const isMain = isFirst;
+    isFirst = false;
+
+    // A bare main repo has no working tree to show
+    if (!worktreePath || fields.has('bare')) continue;
+
+    const branchRef = fields.get('branch');
+    worktrees.push({
+      path: worktreePath,
+      head: fields.get('HEAD') || null,
+      branch: branchRef ? branchRef.replace(/^refs\/heads\//, '') : null,
+      isMain,
+      isCurrent: path.resolve(worktreePath) === path.resolve(repoPath),
+      isDirty: false,
+      locked: fields.has('locked'),
+      prunable: fields.has('prunable'),
+    });
+  }
+
+  // Dirty state comes from each worktree's own status; prunable ones have no directory left
+  await Promise.all(
+    worktrees
+      .filter((worktree) => !worktree.prunable)
+      .map(async (worktree) => {
+        const status = await runGitQuick(worktree.path, ['status', '--porcelain']);
+        worktree.isDirty = status.success && status.stdout.length > 0;
+      })
+  );
+
+  return worktrees;
+}
+
+/**
+ * Add a worktree, checking out an existing branch or creating a new one
+ */
+export async function addWorktree(
+  repoPath: string,
+  options: AddWorktreeOptions
+): Promise<GitResult> {
+  const args = ['worktree', 'add'];
+  if (options.createBranch) {
+    args.push('-b', options.branch, '--', options.path);
+    if (options.startPoint) {
+      args.push(options.startPoint);
+    }
+  } else {
+    args.push('--', options.path, options.branch);
+  }
+
+  return runGitQuick(repoPath, args);
+}
+
+/**
+ * Remove a worktree. Without force git refuses when it has uncommitted changes.
+ */
+export async function removeWorktree(
+  repoPath: string,
+  worktreePath: string,
+  force: boolean
+): Promise<GitResult> {
+  const args = ['worktree', 'remove'];
+  if (force) {
+    args.push('--force');
+  }
+  args.push('--', worktreePath);
+
+  return runGitQuick(repoPath, args);
+}
+
+/**
+ * Clean up metadata of worktrees whose directories were deleted
+ */
+export async function pruneWorktrees(repoPath: string): Promise<GitResult> {
+  return runGitQuick(repoPath, ['worktree', 'prune']);
+}
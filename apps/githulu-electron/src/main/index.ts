@@ -1,12 +1,16 @@
-import { app, BrowserWindow, ipcMain, dialog, shell } from 'electron';
+import { app, BrowserWindow, ipcMain, dialog } from 'electron';
 import * as path from 'node:path';
 import { registerReposHandlers } from './ipc/repos.js';
 import { registerGitHandlers } from './ipc/git.js';
 import { registerUIHandlers } from './ipc/ui.js';
+import { registerSettingsHandlers } from './ipc/settings.js';
+import { registerOpsHandlers } from './ipc/ops.js';
 import { resolveGitBinary } from './git/resolver.js';
 import { createWindow, getMainWindow } from './window.js';
 import { initStorage } from './storage/index.js';
-import { stopAllWatchers } from './watchers/repo-watcher.js';
+import { stopAllWatchers, startPolling, stopPolling } from './watchers/repo-watcher.js';
+import { openInEditor } from './editor.js';
+import { startAutoFetch, stopAutoFetch } from './scheduler/auto-fetch.js';
 
 // Ensure single instance
 const gotTheLock = app.requestSingleInstanceLock();
@@ -38,10 +42,16 @@ async function initialize(): Promise<void> {
     registerReposHandlers();
     registerGitHandlers();
     registerUIHandlers();
+    registerSettingsHandlers();
+    registerOpsHandlers();
     console.log('[githulu] IPC handlers registered');
 
     // Register utility handlers
     registerUtilityHandlers();
+
+    // Keep watched repos' status and remote-tracking branches up to date
+    startPolling();
+    startAutoFetch();
   } catch (error) {
     console.error('[githulu] Initialization failed:', error);
     dialog.showErrorBox(
@@ -70,17 +80,20 @@ function registerUtilityHandlers(): void {
     return result.filePaths[0];
   });
 
-  // Open file in editor (Cursor)
+  // Open file in the editor from settings
   ipcMain.handle(
     'githulu:utils:openInEditor',
-    async (_event: Electron.IpcMainInvokeEvent, filePath: string) => {
+    async (_event: Electron.IpcMainInvokeEvent, filePath: string, line?: number) => {
       // Validate path exists and is absolute
       if (!path.isAbsolute(filePath)) {
         throw new Error('File path must be absolute');
       }
 
-      // Use macOS open command to open in Cursor
-      await shell.openPath(filePath);
+      if (line !== undefined && (!Number.isInteger(line) || line < 1)) {
+        throw new Error('Invalid line number');
+      }
+
+      await openInEditor(filePath, line);
     }
   );
 }
@@ -104,6 +117,8 @@ app.on('window-all-closed', () => {
 });
 
 app.on('before-quit', () => {
+  stopAutoFetch();
+  stopPolling();
   stopAllWatchers();
 });
 
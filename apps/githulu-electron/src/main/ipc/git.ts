@@ -1,27 +1,90 @@
 import { ipcMain } from 'electron';
+import * as path from 'node:path';
 import { v4 as uuidv4 } from 'uuid';
 import { getRepoById } from '../storage/index.js';
-import { runGitQuick, runGitLong } from '../git/runner.js';
+import { runGit, runGitQuick, runGitLong } from '../git/runner.js';
 import { queueOperation } from '../git/queue.js';
+import { readRepoStatus } from '../git/status.js';
 import {
-  parseStatusPorcelainV2,
   detectRebaseState,
   parseBranchList,
   parseStashList,
+  parseRebaseTodoCommits,
+  parseBlamePorcelain,
+  parseTagList,
+  parseUnifiedDiff,
+  parseDiscardSnapshots,
 } from '../git/parser.js';
+import {
+  validateRebaseTodo,
+  prepareSequenceEditor,
+  NON_INTERACTIVE_EDITOR_ENV,
+} from '../git/interactive-rebase.js';
+import { validateHunkSelections, buildPatch } from '../git/patch.js';
+import {
+  DISCARD_REF_PREFIX,
+  DISCARD_SNAPSHOT_FORMAT,
+  resolveDiscardTargets,
+  createDiscardSnapshot,
+  discardTargets,
+  restoreDiscardSnapshot,
+} from '../git/discard.js';
+import { resolveDefaultBranch, listMergedBranches, deleteLocalBranches } from '../git/branches.js';
+import { showStash } from '../git/stash.js';
+import { validateLogFilter, logFilterArgs } from '../git/log.js';
+import { runDiffTool, runMergeTool } from '../git/tools.js';
+import {
+  listRemotes,
+  resolveDefaultRemote,
+  splitRemoteBranch,
+  fetchAllRemotes,
+} from '../git/remotes.js';
+import { listWorktrees, addWorktree, removeWorktree, pruneWorktrees } from '../git/worktrees.js';
+import {
+  listSubmodules,
+  initSubmodules,
+  updateSubmodules,
+  syncSubmodules,
+  loadSubmoduleDiff,
+} from '../git/submodules.js';
+import {
+  loadConflictFile,
+  resolveConflictWithSide,
+  writeConflictResolution,
+} from '../git/conflicts.js';
 import { sendToRenderer } from '../window.js';
 import { getRepoStatusCache, setRepoStatusCache } from '../cache/repo-state.js';
 import { startWatching } from '../watchers/repo-watcher.js';
+import { emitProgress, queueCancellableOperation, endCancellableStep } from './ops.js';
 import type {
   RepoStatus,
   OpResult,
   DiffResult,
   BranchesResult,
   LogResult,
+  LogFilter,
   CommitInfo,
   CommitDetailResult,
   CommitFileChange,
   StashListResult,
+  RebaseTodoEntry,
+  RebaseTodoResult,
+  BlameResult,
+  TagListResult,
+  HunkSelection,
+  PatchAction,
+  CommitOptions,
+  RevertOptions,
+  MergeOptions,
+  ConflictSide,
+  StashPushOptions,
+  PullOptions,
+  AddWorktreeOptions,
+  GitResult,
+  DeletedBranch,
+  DeleteBranchResult,
+  MergedBranchesResult,
+  DiscardSnapshotListResult,
 } from '../../shared/types.js';
 
 /**
@@ -53,10 +116,42 @@ function createOpResult(success: boolean, stdout?: string, stderr?: string): OpR
 }
 
 /**
- * Emit progress event to renderer
+ * Combine the results of deleting one or more branches
+ */
+function createDeleteBranchResult(
+  results: GitResult[],
+  deleted: DeletedBranch[],
+  notMerged: string[]
+): DeleteBranchResult {
+  const stderr = [
+    ...results.map((r) => r.stderr),
+    ...notMerged.map((name) => `Branch '${name}' is not fully merged`),
+  ].filter(Boolean);
+
+  return {
+    ...createOpResult(
+      results.every((r) => r.success) && notMerged.length === 0,
+      results
+        .map((r) => r.stdout)
+        .filter(Boolean)
+        .join('\n'),
+      stderr.join('\n')
+    ),
+    deleted,
+    notMerged,
+  };
+}
+
+/**
+ * Validate an optional list of submodule paths
  */
-function emitProgress(repoId: string, opId: string, line: string): void {
-  sendToRenderer('githulu:event:operationProgress', { repoId, opId, line });
+function validateSubmodulePaths(paths: unknown): void {
+  if (
+    paths !== undefined &&
+    (!Array.isArray(paths) || paths.some((p) => !p || typeof p !== 'string'))
+  ) {
+    throw new Error('Invalid submodule paths');
+  }
 }
 
 /**
@@ -94,9 +189,17 @@ export function registerGitHandlers(): void {
     const repoPath = validateAndGetRepoPath(repoId);
     const opId = `op_${uuidv4().slice(0, 8)}`;
 
-    const opResult = await queueOperation(repoPath, 'medium', async () => {
-      const result = await runGitLong(repoPath, ['fetch', remote || 'origin', '--prune'], (line) =>
-        emitProgress(repoId, opId, line)
+    if (remote !== undefined && (typeof remote !== 'string' || remote.startsWith('-'))) {
+      throw new Error('Invalid remote name');
+    }
+
+    const opResult = await queueCancellableOperation(repoId, repoPath, opId, async (signal) => {
+      const fetchRemote = remote || (await resolveDefaultRemote(repoPath));
+      const result = await runGitLong(
+        repoPath,
+        ['fetch', '--progress', fetchRemote, '--prune'],
+        (line) => emitProgress(repoId, opId, line),
+        signal
       );
 
       return createOpResult(result.success, result.stdout, result.stderr);
@@ -112,18 +215,16 @@ export function registerGitHandlers(): void {
     return opResult;
   });
 
-  // Push to remote
-  ipcMain.handle('githulu:git:push', async (_event, repoId: string, branch: string) => {
+  // Fetch all remotes, pruning deleted remote branches
+  ipcMain.handle('githulu:git:fetchAll', async (_event, repoId: string) => {
     const repoPath = validateAndGetRepoPath(repoId);
     const opId = `op_${uuidv4().slice(0, 8)}`;
 
-    if (!branch || typeof branch !== 'string') {
-      throw new Error('Invalid branch name');
-    }
-
-    const opResult = await queueOperation(repoPath, 'medium', async () => {
-      const result = await runGitLong(repoPath, ['push', 'origin', branch], (line) =>
-        emitProgress(repoId, opId, line)
+    const opResult = await queueCancellableOperation(repoId, repoPath, opId, async (signal) => {
+      const result = await fetchAllRemotes(
+        repoPath,
+        (line) => emitProgress(repoId, opId, line),
+        signal
       );
 
       return createOpResult(result.success, result.stdout, result.stderr);
@@ -132,15 +233,15 @@ export function registerGitHandlers(): void {
     // Trigger status refresh AFTER the queued operation completes (avoid deadlock)
     if (opResult.success) {
       fetchStatus(repoId, repoPath).catch((err) => {
-        console.warn('[githulu] Failed to fetch status after push:', err);
+        console.warn('[githulu] Failed to fetch status after fetch:', err);
       });
     }
 
     return opResult;
   });
 
-  // Publish branch (push with upstream)
-  ipcMain.handle('githulu:git:publish', async (_event, repoId: string, branch: string) => {
+  // Push to remote
+  ipcMain.handle('githulu:git:push', async (_event, repoId: string, branch: string) => {
     const repoPath = validateAndGetRepoPath(repoId);
     const opId = `op_${uuidv4().slice(0, 8)}`;
 
@@ -148,9 +249,13 @@ export function registerGitHandlers(): void {
       throw new Error('Invalid branch name');
     }
 
-    const opResult = await queueOperation(repoPath, 'medium', async () => {
-      const result = await runGitLong(repoPath, ['push', '-u', 'origin', branch], (line) =>
-        emitProgress(repoId, opId, line)
+    const opResult = await queueCancellableOperation(repoId, repoPath, opId, async (signal) => {
+      const remote = await resolveDefaultRemote(repoPath, branch);
+      const result = await runGitLong(
+        repoPath,
+        ['push', '--progress', remote, branch],
+        (line) => emitProgress(repoId, opId, line),
+        signal
       );
 
       return createOpResult(result.success, result.stdout, result.stderr);
@@ -159,43 +264,116 @@ export function registerGitHandlers(): void {
     // Trigger status refresh AFTER the queued operation completes (avoid deadlock)
     if (opResult.success) {
       fetchStatus(repoId, repoPath).catch((err) => {
-        console.warn('[githulu] Failed to fetch status after publish:', err);
+        console.warn('[githulu] Failed to fetch status after push:', err);
       });
     }
 
     return opResult;
   });
 
-  // Pull from remote
-  // NOTE: Pull with --rebase REQUIRES a clean working directory (no unstaged changes).
-  // UI should validate isDirty before calling this. Git will reject pull --rebase with
-  // uncommitted changes to prevent conflicts during the rebase operation.
+  // Publish branch (push with upstream)
   ipcMain.handle(
-    'githulu:git:pull',
-    async (_event, repoId: string, options?: { remote?: string; rebase?: boolean }) => {
+    'githulu:git:publish',
+    async (_event, repoId: string, branch: string, remote?: string) => {
       const repoPath = validateAndGetRepoPath(repoId);
       const opId = `op_${uuidv4().slice(0, 8)}`;
 
-      const remote = options?.remote || 'origin';
-      const useRebase = options?.rebase ?? true; // Default to rebase (as per spec)
+      if (!branch || typeof branch !== 'string') {
+        throw new Error('Invalid branch name');
+      }
 
-      const opResult = await queueOperation(repoPath, 'medium', async () => {
-        const args = useRebase ? ['pull', '--rebase', remote] : ['pull', remote];
+      if (remote !== undefined && (typeof remote !== 'string' || remote.startsWith('-'))) {
+        throw new Error('Invalid remote name');
+      }
 
-        const result = await runGitLong(repoPath, args, (line) => emitProgress(repoId, opId, line));
+      const opResult = await queueCancellableOperation(repoId, repoPath, opId, async (signal) => {
+        const publishRemote = remote || (await resolveDefaultRemote(repoPath, branch));
+        const result = await runGitLong(
+          repoPath,
+          ['push', '--progress', '-u', publishRemote, branch],
+          (line) => emitProgress(repoId, opId, line),
+          signal
+        );
 
         return createOpResult(result.success, result.stdout, result.stderr);
       });
 
       // Trigger status refresh AFTER the queued operation completes (avoid deadlock)
-      fetchStatus(repoId, repoPath).catch((err) => {
-        console.warn('[githulu] Failed to fetch status after pull:', err);
-      });
+      if (opResult.success) {
+        fetchStatus(repoId, repoPath).catch((err) => {
+          console.warn('[githulu] Failed to fetch status after publish:', err);
+        });
+      }
 
       return opResult;
     }
   );
 
+  // Pull from remote
+  // NOTE: Pull with --rebase REQUIRES a clean working directory (no unstaged changes).
+  // UI should validate isDirty before calling this. Git will reject pull --rebase with
+  // uncommitted changes to prevent conflicts during the rebase operation.
+  ipcMain.handle('githulu:git:pull', async (_event, repoId: string, options?: PullOptions) => {
+    const repoPath = validateAndGetRepoPath(repoId);
+    const opId = `op_${uuidv4().slice(0, 8)}`;
+
+    const remote = options?.remote;
+    const branch = options?.branch;
+    const useRebase = options?.rebase ?? true; // Default to rebase (as per spec)
+
+    if (remote !== undefined && (typeof remote !== 'string' || remote.startsWith('-'))) {
+      throw new Error('Invalid remote name');
+    }
+
+    if (branch !== undefined && (typeof branch !== 'string' || !branch || branch.startsWith('-'))) {
+      throw new Error('Invalid branch name');
+    }
+
+    const opResult = await queueCancellableOperation(repoId, repoPath, opId, async (signal) => {
+      const pullRemote = remote || (await resolveDefaultRemote(repoPath));
+
+      // Fetch first on its own, as that's the part worth cancelling
+      const fetchArgs = ['fetch', '--progress', pullRemote];
+      if (branch) {
+        fetchArgs.push(branch);
+      }
+
+      const fetchResult = await runGitLong(
+        repoPath,
+        fetchArgs,
+        (line) => emitProgress(repoId, opId, line),
+        signal
+      );
+      if (!fetchResult.success) {
+        return createOpResult(false, fetchResult.stdout, fetchResult.stderr);
+      }
+
+      // The merge or rebase isn't interrupted: that could leave it half-applied.
+      // Its own fetch finds nothing new to download by now.
+      endCancellableStep(repoId, opId, signal);
+
+      const args = useRebase
+        ? ['pull', '--progress', '--rebase', pullRemote]
+        : ['pull', '--progress', '--no-rebase', pullRemote];
+
+      // Without a branch, git pulls the branch's upstream (only valid for its own remote)
+      if (branch) {
+        args.push(branch);
+      }
+
+      const result = await runGitLong(repoPath, args, (line) => emitProgress(repoId, opId, line));
+
+      return createOpResult(result.success, result.stdout, result.stderr);
+    });
+
+    // Trigger status refresh AFTER the queued operation completes (avoid deadlock)
+    fetchStatus(repoId, repoPath).catch((err) => {
+      console.warn('[githulu] Failed to fetch status after pull:', err);
+    });
+
+    return opResult;
+  });
+
   // Push with options (supports force push)
   ipcMain.handle(
     'githulu:git:pushWithOptions',
@@ -212,10 +390,16 @@ export function registerGitHandlers(): void {
         throw new Error('Invalid branch name');
       }
 
-      const remote = options?.remote || 'origin';
+      if (
+        options?.remote !== undefined &&
+        (typeof options.remote !== 'string' || options.remote.startsWith('-'))
+      ) {
+        throw new Error('Invalid remote name');
+      }
 
-      const opResult = await queueOperation(repoPath, 'medium', async () => {
-        const args = ['push'];
+      const opResult = await queueCancellableOperation(repoId, repoPath, opId, async (signal) => {
+        const remote = options?.remote || (await resolveDefaultRemote(repoPath, branch));
+        const args = ['push', '--progress'];
 
         // Force push with lease is safer than force
         if (options?.forceWithLease) {
@@ -226,7 +410,12 @@ export function registerGitHandlers(): void {
 
         args.push(remote, branch);
 
-        const result = await runGitLong(repoPath, args, (line) => emitProgress(repoId, opId, line));
+        const result = await runGitLong(
+          repoPath,
+          args,
+          (line) => emitProgress(repoId, opId, line),
+          signal
+        );
 
         return createOpResult(result.success, result.stdout, result.stderr);
       });
@@ -242,6 +431,250 @@ export function registerGitHandlers(): void {
     }
   );
 
+  // List remotes
+  ipcMain.handle('githulu:git:remotes', async (_event, repoId: string) => {
+    const repoPath = validateAndGetRepoPath(repoId);
+
+    return queueOperation(repoPath, 'low', async () => {
+      const remotes = await listRemotes(repoPath);
+      return { remotes };
+    });
+  });
+
+  // Add a remote
+  ipcMain.handle(
+    'githulu:git:addRemote',
+    async (_event, repoId: string, name: string, url: string) => {
+      const repoPath = validateAndGetRepoPath(repoId);
+
+      if (!name || typeof name !== 'string' || name.startsWith('-')) {
+        throw new Error('Invalid remote name');
+      }
+
+      if (!url || typeof url !== 'string' || url.startsWith('-')) {
+        throw new Error('Invalid remote URL');
+      }
+
+      return queueOperation(repoPath, 'medium', async () => {
+        const result = await runGitQuick(repoPath, ['remote', 'add', '--', name, url]);
+        return createOpResult(result.success, result.stdout, result.stderr);
+      });
+    }
+  );
+
+  // Rename a remote (its remote-tracking branches and upstream settings move with it)
+  ipcMain.handle(
+    'githulu:git:renameRemote',
+    async (_event, repoId: string, oldName: string, newName: string) => {
+      const repoPath = validateAndGetRepoPath(repoId);
+
+      if (!oldName || typeof oldName !== 'string' || oldName.startsWith('-')) {
+        throw new Error('Invalid remote name');
+      }
+
+      if (!newName || typeof newName !== 'string' || newName.startsWith('-')) {
+        throw new Error('Invalid new remote name');
+      }
+
+      const opResult = await queueOperation(repoPath, 'medium', async () => {
+        const result = await runGitQuick(repoPath, ['remote', 'rename', '--', oldName, newName]);
+        return createOpResult(result.success, result.stdout, result.stderr);
+      });
+
+      // Trigger status refresh AFTER the queued operation completes (avoid deadlock)
+      if (opResult.success) {
+        fetchStatus(repoId, repoPath).catch((err) => {
+          console.warn('[githulu] Failed to fetch status after remote rename:', err);
+        });
+      }
+
+      return opResult;
+    }
+  );
+
+  // Remove a remote along with its remote-tracking branches
+  ipcMain.handle('githulu:git:removeRemote', async (_event, repoId: string, name: string) => {
+    const repoPath = validateAndGetRepoPath(repoId);
+
+    if (!name || typeof name !== 'string' || name.startsWith('-')) {
+      throw new Error('Invalid remote name');
+    }
+
+    const opResult = await queueOperation(repoPath, 'medium', async () => {
+      const result = await runGitQuick(repoPath, ['remote', 'remove', '--', name]);
+      return createOpResult(result.success, result.stdout, result.stderr);
+    });
+
+    // Trigger status refresh AFTER the queued operation completes (avoid deadlock)
+    if (opResult.success) {
+      fetchStatus(repoId, repoPath).catch((err) => {
+        console.warn('[githulu] Failed to fetch status after remote remove:', err);
+      });
+    }
+
+    return opResult;
+  });
+
+  // Change a remote's URL, or only its push URL
+  ipcMain.handle(
+    'githulu:git:setRemoteUrl',
+    async (_event, repoId: string, name: string, url: string, push?: boolean) => {
+      const repoPath = validateAndGetRepoPath(repoId);
+
+      if (!name || typeof name !== 'string' || name.startsWith('-')) {
+        throw new Error('Invalid remote name');
+      }
+
+      if (!url || typeof url !== 'string' || url.startsWith('-')) {
+        throw new Error('Invalid remote URL');
+      }
+
+      return queueOperation(repoPath, 'medium', async () => {
+        const args = ['remote', 'set-url'];
+        if (push) {
+          args.push('--push');
+        }
+        args.push('--', name, url);
+
+        const result = await runGitQuick(repoPath, args);
+        return createOpResult(result.success, result.stdout, result.stderr);
+      });
+    }
+  );
+
+  // List worktrees
+  ipcMain.handle('githulu:git:worktrees', async (_event, repoId: string) => {
+    const repoPath = validateAndGetRepoPath(repoId);
+
+    return queueOperation(repoPath, 'low', async () => {
+      const worktrees = await listWorktrees(repoPath);
+      return { worktrees };
+    });
+  });
+
+  // Add a worktree for an existing or new branch
+  ipcMain.handle(
+    'githulu:git:addWorktree',
+    async (_event, repoId: string, options: AddWorktreeOptions) => {
+      const repoPath = validateAndGetRepoPath(repoId);
+
+      if (!options || typeof options.path !== 'string' || !path.isAbsolute(options.path)) {
+        throw new Error('Invalid worktree path');
+      }
+
+      if (!options.branch || typeof options.branch !== 'string' || options.branch.startsWith('-')) {
+        throw new Error('Invalid branch name');
+      }
+
+      if (
+        options.startPoint !== undefined &&
+        (typeof options.startPoint !== 'string' || options.startPoint.startsWith('-'))
+      ) {
+        throw new Error('Invalid start point');
+      }
+
+      return queueOperation(repoPath, 'medium', async () => {
+        const result = await addWorktree(repoPath, {
+          path: options.path,
+          branch: options.branch,
+          createBranch: !!options.createBranch,
+          startPoint: options.startPoint,
+        });
+        return createOpResult(result.success, result.stdout, result.stderr);
+      });
+    }
+  );
+
+  // Remove a worktree (force discards its uncommitted changes)
+  ipcMain.handle(
+    'githulu:git:removeWorktree',
+    async (_event, repoId: string, worktreePath: string, force?: boolean) => {
+      const repoPath = validateAndGetRepoPath(repoId);
+
+      if (!worktreePath || typeof worktreePath !== 'string' || !path.isAbsolute(worktreePath)) {
+        throw new Error('Invalid worktree path');
+      }
+
+      if (path.resolve(worktreePath) === path.resolve(repoPath)) {
+        throw new Error('Cannot remove the worktree of the open repository');
+      }
+
+      return queueOperation(repoPath, 'medium', async () => {
+        const result = await removeWorktree(repoPath, worktreePath, !!force);
+        return createOpResult(result.success, result.stdout, result.stderr);
+      });
+    }
+  );
+
+  // Prune metadata of worktrees whose directories were deleted
+  ipcMain.handle('githulu:git:pruneWorktrees', async (_event, repoId: string) => {
+    const repoPath = validateAndGetRepoPath(repoId);
+
+    return queueOperation(repoPath, 'medium', async () => {
+      const result = await pruneWorktrees(repoPath);
+      return createOpResult(result.success, result.stdout, result.stderr);
+    });
+  });
+
+  // List submodules
+  ipcMain.handle('githulu:git:submodules', async (_event, repoId: string) => {
+    const repoPath = validateAndGetRepoPath(repoId);
+
+    return queueOperation(repoPath, 'low', async () => {
+      const submodules = await listSubmodules(repoPath);
+      return { submodules };
+    });
+  });
+
+  // Initialize submodules (all of them without paths)
+  ipcMain.handle('githulu:git:initSubmodules', async (_event, repoId: string, paths?: string[]) => {
+    const repoPath = validateAndGetRepoPath(repoId);
+    validateSubmodulePaths(paths);
+
+    return queueOperation(repoPath, 'medium', async () => {
+      const result = await initSubmodules(repoPath, paths ?? []);
+      return createOpResult(result.success, result.stdout, result.stderr);
+    });
+  });
+
+  // Update submodules to their recorded commits, cloning any that are missing
+  ipcMain.handle(
+    'githulu:git:updateSubmodules',
+    async (_event, repoId: string, paths?: string[]) => {
+      const repoPath = validateAndGetRepoPath(repoId);
+      const opId = `op_${uuidv4().slice(0, 8)}`;
+      validateSubmodulePaths(paths);
+
+      const opResult = await queueCancellableOperation(repoId, repoPath, opId, async (signal) => {
+        const result = await updateSubmodules(
+          repoPath,
+          paths ?? [],
+          (line) => emitProgress(repoId, opId, line),
+          signal
+        );
+        return createOpResult(result.success, result.stdout, result.stderr);
+      });
+
+      // Trigger status refresh AFTER the queued operation completes (avoid deadlock)
+      fetchStatus(repoId, repoPath).catch((err) => {
+        console.warn('[githulu] Failed to fetch status after submodule update:', err);
+      });
+
+      return opResult;
+    }
+  );
+
+  // Sync submodule URLs from .gitmodules
+  ipcMain.handle('githulu:git:syncSubmodules', async (_event, repoId: string, paths?: string[]) => {
+    const repoPath = validateAndGetRepoPath(repoId);
+    validateSubmodulePaths(paths);
+
+    return queueOperation(repoPath, 'medium', async () => {
+      const result = await syncSubmodules(repoPath, paths ?? []);
+      return createOpResult(result.success, result.stdout, result.stderr);
+    });
+  });
+
   // Get branches
   ipcMain.handle('githulu:git:branches', async (_event, repoId: string) => {
     console.log(`[githulu] git:branches called for repoId: ${repoId}`);
@@ -266,11 +699,25 @@ export function registerGitHandlers(): void {
   });
 
   // Get commit log
+  // Upstream-only commits (when behind) are part of the same topologically ordered walk, so
+  // they appear in their place in the graph rather than being merged in by timestamp.
   ipcMain.handle(
     'githulu:git:log',
-    async (_event, repoId: string, count: number = 50, skip: number = 0) => {
+    async (
+      _event,
+      repoId: string,
+      count: number = 50,
+      skip: number = 0,
+      ref?: string,
+      filter?: LogFilter
+    ) => {
       console.log(`[githulu] git:log called for repoId: ${repoId}, count: ${count}, skip: ${skip}`);
       const repoPath = validateAndGetRepoPath(repoId);
+
+      if (ref !== undefined && (typeof ref !== 'string' || !ref || ref.startsWith('-'))) {
+        throw new Error('Invalid ref');
+      }
+      validateLogFilter(filter);
       console.log(`[githulu] git:log repoPath: ${repoPath}`);
 
       const result = await queueOperation(repoPath, 'low', async () => {
@@ -278,10 +725,10 @@ export function registerGitHandlers(): void {
         // Use custom delimiters that won't appear in normal commit messages
         const FIELD_SEP = '<|>';
         const COMMIT_SEP = '---END---';
-        const format = `%H${FIELD_SEP}%h${FIELD_SEP}%s${FIELD_SEP}%b${FIELD_SEP}%an${FIELD_SEP}%ae${FIELD_SEP}%aI${FIELD_SEP}%ar${FIELD_SEP}%D${COMMIT_SEP}`;
+        const format = `%H${FIELD_SEP}%h${FIELD_SEP}%P${FIELD_SEP}%s${FIELD_SEP}%b${FIELD_SEP}%an${FIELD_SEP}%ae${FIELD_SEP}%aI${FIELD_SEP}%ar${FIELD_SEP}%D${COMMIT_SEP}`;
 
         // Helper to parse commit blocks
-        const parseCommits = (stdout: string, isUpstream: boolean): CommitInfo[] => {
+        const parseCommits = (stdout: string, upstreamOnly: Set<string>): CommitInfo[] => {
           const commitBlocks = stdout
             .split(COMMIT_SEP)
             .map((block) => block.trim())
@@ -289,14 +736,29 @@ export function registerGitHandlers(): void {
 
           return commitBlocks.map((block) => {
             const parts = block.split(FIELD_SEP);
-            const [hash, shortHash, subject, body, author, authorEmail, date, relativeDate, refsStr] = parts;
+            const [
+              hash,
+              shortHash,
+              parentsStr,
+              subject,
+              body,
+              author,
+              authorEmail,
+              date,
+              relativeDate,
+              refsStr,
+            ] = parts;
             const refs = refsStr
-              ? refsStr.split(',').map((r) => r.trim()).filter(Boolean)
+              ? refsStr
+                  .split(',')
+                  .map((r) => r.trim())
+                  .filter(Boolean)
               : [];
 
             return {
               hash: hash || '',
               shortHash: shortHash || '',
+              parents: parentsStr ? parentsStr.split(' ').filter(Boolean) : [],
               subject: subject || '',
               body: (body || '').trim(),
               author: author || '',
@@ -304,18 +766,47 @@ export function registerGitHandlers(): void {
               date: date || '',
               relativeDate: relativeDate || '',
               refs,
-              isUpstream,
+              isUpstream: upstreamOnly.has(hash),
             };
           });
         };
 
-        // Get local commits
+        // Include the upstream in the walk when it has commits we haven't pulled yet
+        // (only for the current branch - other branches are shown on their own)
+        const revisions = [ref ?? 'HEAD'];
+        const upstreamOnly = new Set<string>();
+        const cachedStatus = getRepoStatusCache(repoId);
+        if (!ref && cachedStatus?.upstream && cachedStatus.behind > 0) {
+          console.log(
+            `[githulu] git:log including ${cachedStatus.behind} upstream commits from ${cachedStatus.upstream}`
+          );
+          const upstreamResult = await runGitQuick(repoPath, [
+            'rev-list',
+            `HEAD..${cachedStatus.upstream}`,
+          ]);
+
+          if (upstreamResult.success) {
+            revisions.push(cachedStatus.upstream);
+            for (const hash of upstreamResult.stdout.split('\n').filter(Boolean)) {
+              upstreamOnly.add(hash);
+            }
+          }
+        }
+
+        // --date-order keeps parents below all of their children (needed for the graph)
+        // while staying close to chronological for the date headers.
+        // --skip counts matching commits only, so pages continue a filtered log.
         const gitResult = await runGitQuick(repoPath, [
           'log',
           `--format=${format}`,
+          '--date-order',
+          ...logFilterArgs(filter),
           `-n`,
           String(count + 1),
           `--skip=${skip}`,
+          ...revisions,
+          '--',
+          ...(filter?.path ? [filter.path] : []),
         ]);
 
         if (!gitResult.success) {
@@ -323,44 +814,18 @@ export function registerGitHandlers(): void {
           throw new Error(`Failed to get log: ${gitResult.stderr}`);
         }
 
-        let localCommits = parseCommits(gitResult.stdout, false);
-        const hasMoreLocal = localCommits.length > count;
-        if (hasMoreLocal) {
-          localCommits = localCommits.slice(0, count);
-        }
-
-        // Check if we should fetch upstream commits (only on first page)
-        let upstreamCommits: CommitInfo[] = [];
-        if (skip === 0) {
-          const cachedStatus = getRepoStatusCache(repoId);
-          if (cachedStatus?.upstream && cachedStatus.behind > 0) {
-            console.log(
-              `[githulu] git:log fetching ${cachedStatus.behind} upstream commits from ${cachedStatus.upstream}`
-            );
-            const upstreamResult = await runGitQuick(repoPath, [
-              'log',
-              `--format=${format}`,
-              `HEAD..${cachedStatus.upstream}`,
-            ]);
-
-            if (upstreamResult.success) {
-              upstreamCommits = parseCommits(upstreamResult.stdout, true);
-              console.log(`[githulu] git:log found ${upstreamCommits.length} upstream commits`);
-            }
-          }
+        let commits = parseCommits(gitResult.stdout, upstreamOnly);
+        const hasMore = commits.length > count;
+        if (hasMore) {
+          commits = commits.slice(0, count);
         }
 
-        // Merge and sort by date (newest first)
-        const allCommits = [...upstreamCommits, ...localCommits].sort((a, b) => {
-          return new Date(b.date).getTime() - new Date(a.date).getTime();
-        });
-
         console.log(
-          `[githulu] git:log returning ${allCommits.length} commits (${upstreamCommits.length} upstream), hasMore: ${hasMoreLocal}`
+          `[githulu] git:log returning ${commits.length} commits (${upstreamOnly.size} upstream), hasMore: ${hasMore}`
         );
         return {
-          commits: allCommits,
-          hasMore: hasMoreLocal,
+          commits,
+          hasMore,
         } as LogResult;
       });
 
@@ -379,7 +844,7 @@ export function registerGitHandlers(): void {
     return queueOperation(repoPath, 'low', async () => {
       // Get commit info with safe delimiters (same as log)
       const FIELD_SEP = '<|>';
-      const format = `%H${FIELD_SEP}%h${FIELD_SEP}%s${FIELD_SEP}%b${FIELD_SEP}%an${FIELD_SEP}%ae${FIELD_SEP}%aI${FIELD_SEP}%ar${FIELD_SEP}%D`;
+      const format = `%H${FIELD_SEP}%h${FIELD_SEP}%P${FIELD_SEP}%s${FIELD_SEP}%b${FIELD_SEP}%an${FIELD_SEP}%ae${FIELD_SEP}%aI${FIELD_SEP}%ar${FIELD_SEP}%D`;
       const infoResult = await runGitQuick(repoPath, ['show', '-s', `--format=${format}`, hash]);
 
       if (!infoResult.success) {
@@ -390,6 +855,7 @@ export function registerGitHandlers(): void {
       const [
         commitHash,
         shortHash,
+        parentsStr,
         subject,
         body,
         author,
@@ -440,6 +906,7 @@ export function registerGitHandlers(): void {
       return {
         hash: commitHash || hash,
         shortHash: shortHash || '',
+        parents: parentsStr ? parentsStr.split(' ').filter(Boolean) : [],
         subject: subject || '',
         body: body || '',
         author: author || '',
@@ -478,14 +945,50 @@ export function registerGitHandlers(): void {
     }
   );
 
-  // Create branch
+  // Blame a file, either in the working tree or at a specific revision
   ipcMain.handle(
-    'githulu:git:createBranch',
-    async (_event, repoId: string, name: string, from: string) => {
+    'githulu:git:blame',
+    async (_event, repoId: string, filePath: string, rev?: string) => {
       const repoPath = validateAndGetRepoPath(repoId);
 
-      if (!name || typeof name !== 'string') {
-        throw new Error('Invalid branch name');
+      if (!filePath || typeof filePath !== 'string') {
+        throw new Error('Invalid file path');
+      }
+
+      if (rev !== undefined && (typeof rev !== 'string' || !rev || rev.startsWith('-'))) {
+        throw new Error('Invalid revision');
+      }
+
+      return queueOperation(repoPath, 'high', async () => {
+        const args = ['blame', '--porcelain'];
+        if (rev) {
+          args.push(rev);
+        }
+        args.push('--', filePath);
+
+        const result = await runGitQuick(repoPath, args);
+
+        if (!result.success) {
+          throw new Error(`Failed to blame ${filePath}: ${result.stderr}`);
+        }
+
+        return {
+          filePath,
+          rev: rev ?? null,
+          lines: parseBlamePorcelain(result.stdout),
+        } as BlameResult;
+      });
+    }
+  );
+
+  // Create branch
+  ipcMain.handle(
+    'githulu:git:createBranch',
+    async (_event, repoId: string, name: string, from: string) => {
+      const repoPath = validateAndGetRepoPath(repoId);
+
+      if (!name || typeof name !== 'string') {
+        throw new Error('Invalid branch name');
       }
 
       if (!from || typeof from !== 'string') {
@@ -548,10 +1051,11 @@ export function registerGitHandlers(): void {
         throw new Error('Invalid remote branch');
       }
 
-      // Default local name to the branch name without remote prefix
-      const branchName = localName || remoteBranch.replace(/^origin\//, '');
-
       const opResult = await queueOperation(repoPath, 'medium', async () => {
+        // Default local name to the branch name without remote prefix
+        const branchName =
+          localName || (await splitRemoteBranch(repoPath, remoteBranch))?.branch || remoteBranch;
+
         const result = await runGitQuick(repoPath, [
           'switch',
           '-c',
@@ -606,6 +1110,171 @@ export function registerGitHandlers(): void {
     return opResult;
   });
 
+  // Delete a local branch. Unless forced, branches that aren't fully merged are left alone and
+  // reported in `notMerged` so the UI can ask before forcing.
+  ipcMain.handle(
+    'githulu:git:deleteBranch',
+    async (_event, repoId: string, name: string, force?: boolean) => {
+      const repoPath = validateAndGetRepoPath(repoId);
+
+      if (!name || typeof name !== 'string' || name.startsWith('-')) {
+        throw new Error('Invalid branch name');
+      }
+
+      const opResult = await queueOperation(repoPath, 'medium', async () => {
+        const outcome = await deleteLocalBranches(repoPath, [name], { force: !!force });
+        return createDeleteBranchResult(outcome.results, outcome.deleted, outcome.notMerged);
+      });
+
+      // Trigger status refresh AFTER the queued operation completes (avoid deadlock)
+      if (opResult.success) {
+        fetchStatus(repoId, repoPath).catch((err) => {
+          console.warn('[githulu] Failed to fetch status after branch delete:', err);
+        });
+      }
+
+      return opResult;
+    }
+  );
+
+  // Delete a branch from a remote (git push --delete)
+  ipcMain.handle(
+    'githulu:git:deleteRemoteBranch',
+    async (_event, repoId: string, remote: string, name: string) => {
+      const repoPath = validateAndGetRepoPath(repoId);
+      const opId = `op_${uuidv4().slice(0, 8)}`;
+
+      if (!remote || typeof remote !== 'string' || remote.startsWith('-')) {
+        throw new Error('Invalid remote name');
+      }
+
+      if (!name || typeof name !== 'string' || name.startsWith('-')) {
+        throw new Error('Invalid branch name');
+      }
+
+      return queueCancellableOperation(repoId, repoPath, opId, async (signal) => {
+        // The remote-tracking ref is the last tip we know of
+        const tipResult = await runGitQuick(repoPath, [
+          'rev-parse',
+          '--verify',
+          '--quiet',
+          `refs/remotes/${remote}/${name}`,
+        ]);
+
+        const result = await runGitLong(
+          repoPath,
+          ['push', remote, '--delete', `refs/heads/${name}`],
+          (line) => emitProgress(repoId, opId, line),
+          signal
+        );
+
+        const deleted =
+          result.success && tipResult.success ? [{ name, remote, hash: tipResult.stdout }] : [];
+        return createDeleteBranchResult([result], deleted, []);
+      });
+    }
+  );
+
+  // List local branches already merged into the default branch
+  ipcMain.handle('githulu:git:mergedBranches', async (_event, repoId: string) => {
+    const repoPath = validateAndGetRepoPath(repoId);
+
+    return queueOperation(repoPath, 'low', async () => {
+      const base = await resolveDefaultBranch(repoPath);
+      const branches = base ? await listMergedBranches(repoPath, base) : [];
+      return { base, branches } as MergedBranchesResult;
+    });
+  });
+
+  // Bulk delete branches merged into the default branch. Each branch is checked against the
+  // default branch again, so anything that gained commits since it was listed is kept.
+  ipcMain.handle(
+    'githulu:git:deleteMergedBranches',
+    async (_event, repoId: string, names: string[]) => {
+      const repoPath = validateAndGetRepoPath(repoId);
+
+      if (
+        !Array.isArray(names) ||
+        names.length === 0 ||
+        !names.every((name) => typeof name === 'string' && name && !name.startsWith('-'))
+      ) {
+        throw new Error('Invalid branch names');
+      }
+
+      const opResult = await queueOperation(repoPath, 'medium', async () => {
+        const base = await resolveDefaultBranch(repoPath);
+        if (!base) {
+          return createDeleteBranchResult(
+            [{ success: false, stdout: '', stderr: 'No default branch found', exitCode: 1 }],
+            [],
+            []
+          );
+        }
+
+        const outcome = await deleteLocalBranches(repoPath, names, { mergedInto: base });
+        return createDeleteBranchResult(outcome.results, outcome.deleted, outcome.notMerged);
+      });
+
+      // Trigger status refresh AFTER the queued operation completes (avoid deadlock)
+      fetchStatus(repoId, repoPath).catch((err) => {
+        console.warn('[githulu] Failed to fetch status after deleting merged branches:', err);
+      });
+
+      return opResult;
+    }
+  );
+
+  // Recreate a branch deleted earlier in the session at its recorded tip
+  ipcMain.handle(
+    'githulu:git:restoreBranch',
+    async (_event, repoId: string, branch: DeletedBranch) => {
+      const repoPath = validateAndGetRepoPath(repoId);
+      const opId = `op_${uuidv4().slice(0, 8)}`;
+
+      if (
+        !branch ||
+        typeof branch.name !== 'string' ||
+        !branch.name ||
+        branch.name.startsWith('-')
+      ) {
+        throw new Error('Invalid branch name');
+      }
+
+      if (typeof branch.hash !== 'string' || !/^[0-9a-f]{40}$/i.test(branch.hash)) {
+        throw new Error('Invalid branch tip');
+      }
+
+      if (
+        branch.remote !== undefined &&
+        (typeof branch.remote !== 'string' || branch.remote.startsWith('-'))
+      ) {
+        throw new Error('Invalid remote name');
+      }
+
+      const opResult = await queueCancellableOperation(repoId, repoPath, opId, async (signal) => {
+        // Remote branches are pushed back; the commit is still local after the delete
+        const result = branch.remote
+          ? await runGitLong(
+              repoPath,
+              ['push', '--progress', branch.remote, `${branch.hash}:refs/heads/${branch.name}`],
+              (line) => emitProgress(repoId, opId, line),
+              signal
+            )
+          : await runGitQuick(repoPath, ['branch', '--', branch.name, branch.hash]);
+        return createOpResult(result.success, result.stdout, result.stderr);
+      });
+
+      // Trigger status refresh AFTER the queued operation completes (avoid deadlock)
+      if (opResult.success) {
+        fetchStatus(repoId, repoPath).catch((err) => {
+          console.warn('[githulu] Failed to fetch status after branch restore:', err);
+        });
+      }
+
+      return opResult;
+    }
+  );
+
   // Get diff for a file
   ipcMain.handle(
     'githulu:git:diff',
@@ -617,7 +1286,12 @@ export function registerGitHandlers(): void {
       }
 
       return queueOperation(repoPath, 'high', async () => {
-        const args = staged ? ['diff', '--cached', '--', filePath] : ['diff', '--', filePath];
+        // --submodule=short keeps the "Subproject commit" lines even if diff.submodule is set
+        const args = ['diff', '--submodule=short'];
+        if (staged) {
+          args.push('--cached');
+        }
+        args.push('--', filePath);
 
         const result = await runGitQuick(repoPath, args);
 
@@ -625,11 +1299,28 @@ export function registerGitHandlers(): void {
           filePath,
           staged,
           diffText: result.stdout,
+          submodule: await loadSubmoduleDiff(repoPath, filePath, result.stdout),
         } as DiffResult;
       });
     }
   );
 
+  // Open a file's changes in the configured difftool. Not queued: the tool
+  // stays open until the user closes it and only reads the repo.
+  ipcMain.handle(
+    'githulu:git:difftool',
+    async (_event, repoId: string, filePath: string, staged: boolean) => {
+      const repoPath = validateAndGetRepoPath(repoId);
+
+      if (!filePath || typeof filePath !== 'string') {
+        throw new Error('Invalid file path');
+      }
+
+      const result = await runDiffTool(repoPath, filePath, staged === true);
+      return createOpResult(result.success, result.stdout, result.stderr);
+    }
+  );
+
   // Stage a file
   ipcMain.handle('githulu:git:stageFile', async (_event, repoId: string, filePath: string) => {
     const repoPath = validateAndGetRepoPath(repoId);
@@ -676,6 +1367,178 @@ export function registerGitHandlers(): void {
     return opResult;
   });
 
+  // Stage, unstage or discard selected hunks/lines of a file
+  ipcMain.handle(
+    'githulu:git:applyHunks',
+    async (
+      _event,
+      repoId: string,
+      filePath: string,
+      action: PatchAction,
+      selections: HunkSelection[]
+    ) => {
+      const repoPath = validateAndGetRepoPath(repoId);
+
+      if (!filePath || typeof filePath !== 'string') {
+        throw new Error('Invalid file path');
+      }
+
+      if (action !== 'stage' && action !== 'unstage' && action !== 'discard') {
+        throw new Error(`Invalid patch action: ${action}`);
+      }
+
+      validateHunkSelections(selections);
+
+      const opResult = await queueOperation(repoPath, 'high', async () => {
+        // Unstaging works on the staged diff; staging and discarding on the unstaged one.
+        // The patch is rebuilt from this output, so it's kept untrimmed: trimming would drop
+        // trailing whitespace and blank context lines at the end of the last hunk.
+        const diffArgs = ['diff', '--no-color', '--no-ext-diff'];
+        if (action === 'unstage') {
+          diffArgs.push('--cached');
+        }
+        diffArgs.push('--', filePath);
+        const diffResult = await runGit({ repoPath, args: diffArgs, rawOutput: true });
+
+        if (!diffResult.success) {
+          return createOpResult(false, diffResult.stdout, diffResult.stderr);
+        }
+
+        const reverse = action !== 'stage';
+        const diff = parseUnifiedDiff(diffResult.stdout);
+        const patch = buildPatch(filePath, diff, selections, reverse);
+
+        if (!patch) {
+          return createOpResult(false, '', 'No changes selected');
+        }
+
+        const applyArgs = ['apply', '--whitespace=nowarn'];
+        if (action !== 'discard') {
+          applyArgs.push('--cached');
+        }
+        if (reverse) {
+          applyArgs.push('--reverse');
+        }
+
+        // Back up the whole file first, like a full discard, so it shows in Recently Discarded.
+        // Only once the patch is known to apply, so a failed discard leaves no snapshot behind.
+        if (action === 'discard') {
+          const check = await runGit({
+            repoPath,
+            args: [...applyArgs, '--check', '-'],
+            input: patch,
+          });
+          if (!check.success) {
+            return createOpResult(false, check.stdout, check.stderr);
+          }
+
+          await createDiscardSnapshot(repoPath, { tracked: [filePath], untracked: [] });
+        }
+
+        const result = await runGit({ repoPath, args: [...applyArgs, '-'], input: patch });
+        return createOpResult(result.success, result.stdout, result.stderr);
+      });
+
+      // Trigger status refresh AFTER the queued operation completes (avoid deadlock)
+      if (opResult.success) {
+        fetchStatus(repoId, repoPath).catch((err) => {
+          console.warn('[githulu] Failed to fetch status after applying hunks:', err);
+        });
+      }
+
+      return opResult;
+    }
+  );
+
+  // Discard all changes to a file (staged, unstaged or untracked), keeping a snapshot to restore
+  ipcMain.handle('githulu:git:discardFile', async (_event, repoId: string, filePath: string) => {
+    const repoPath = validateAndGetRepoPath(repoId);
+
+    if (!filePath || typeof filePath !== 'string') {
+      throw new Error('Invalid file path');
+    }
+
+    return discardChanges(repoId, repoPath, [filePath], false);
+  });
+
+  // Discard every change in the working copy, keeping a snapshot to restore
+  ipcMain.handle('githulu:git:discardAll', async (_event, repoId: string) => {
+    const repoPath = validateAndGetRepoPath(repoId);
+    return discardChanges(repoId, repoPath, undefined, false);
+  });
+
+  // Delete all untracked files, keeping a snapshot to restore
+  ipcMain.handle('githulu:git:removeUntracked', async (_event, repoId: string) => {
+    const repoPath = validateAndGetRepoPath(repoId);
+    return discardChanges(repoId, repoPath, undefined, true);
+  });
+
+  // List recently discarded changes (newest first)
+  ipcMain.handle('githulu:git:discardedList', async (_event, repoId: string) => {
+    const repoPath = validateAndGetRepoPath(repoId);
+
+    return queueOperation(repoPath, 'low', async () => {
+      const result = await runGitQuick(repoPath, [
+        'for-each-ref',
+        DISCARD_REF_PREFIX,
+        '--sort=-refname',
+        `--format=${DISCARD_SNAPSHOT_FORMAT}`,
+      ]);
+
+      if (!result.success) {
+        throw new Error(`Failed to list discarded changes: ${result.stderr}`);
+      }
+
+      return { snapshots: parseDiscardSnapshots(result.stdout) } as DiscardSnapshotListResult;
+    });
+  });
+
+  // Restore discarded changes from a snapshot, then forget the snapshot
+  ipcMain.handle('githulu:git:restoreDiscarded', async (_event, repoId: string, id: string) => {
+    const repoPath = validateAndGetRepoPath(repoId);
+
+    if (
+      typeof id !== 'string' ||
+      !id.startsWith(DISCARD_REF_PREFIX) ||
+      !/^\d+(-[0-9a-f]{8})?$/.test(id.slice(DISCARD_REF_PREFIX.length))
+    ) {
+      throw new Error('Invalid discard snapshot');
+    }
+
+    const opResult = await queueOperation(repoPath, 'high', async () => {
+      const listResult = await runGitQuick(repoPath, [
+        'for-each-ref',
+        id,
+        `--format=${DISCARD_SNAPSHOT_FORMAT}`,
+      ]);
+      const [snapshot] = parseDiscardSnapshots(listResult.stdout);
+
+      if (!snapshot) {
+        return createOpResult(false, '', 'Discarded changes not found');
+      }
+
+      const result = await restoreDiscardSnapshot(repoPath, snapshot.id, {
+        tracked: snapshot.trackedPaths,
+        untracked: snapshot.untrackedPaths,
+      });
+
+      if (result.success) {
+        await runGitQuick(repoPath, ['update-ref', '-d', snapshot.id]);
+      }
+
+      return createOpResult(result.success, result.stdout, result.stderr);
+    });
+
+    // Trigger status refresh AFTER the queued operation completes (avoid deadlock)
+    if (opResult.success) {
+      fetchStatus(repoId, repoPath).catch((err) => {
+        console.warn('[githulu] Failed to fetch status after restoring discarded changes:', err);
+      });
+    }
+
+    return opResult;
+  });
+
   // Stage all files
   ipcMain.handle('githulu:git:stageAll', async (_event, repoId: string) => {
     const repoPath = validateAndGetRepoPath(repoId);
@@ -696,15 +1559,32 @@ export function registerGitHandlers(): void {
   });
 
   // Create commit
-  ipcMain.handle('githulu:git:commit', async (_event, repoId: string, message: string) => {
+  ipcMain.handle('githulu:git:commit', async (_event, repoId: string, options: CommitOptions) => {
     const repoPath = validateAndGetRepoPath(repoId);
 
+    if (!options || typeof options !== 'object') {
+      throw new Error('Invalid commit options');
+    }
+
+    const { message, amend, signOff, noVerify, author, allowEmpty } = options;
+
     if (!message || typeof message !== 'string' || !message.trim()) {
       throw new Error('Commit message cannot be empty');
     }
 
+    if (author !== undefined && (typeof author !== 'string' || !/^[^<>]+ <[^<>]+>$/.test(author))) {
+      throw new Error('Author must be in the form "Name <email>"');
+    }
+
+    const args = ['commit', '-m', message];
+    if (amend) args.push('--amend');
+    if (signOff) args.push('--signoff');
+    if (noVerify) args.push('--no-verify');
+    if (allowEmpty) args.push('--allow-empty');
+    if (author) args.push(`--author=${author}`);
+
     const opResult = await queueOperation(repoPath, 'high', async () => {
-      const result = await runGitQuick(repoPath, ['commit', '-m', message]);
+      const result = await runGitQuick(repoPath, args);
       return createOpResult(result.success, result.stdout, result.stderr);
     });
 
@@ -718,12 +1598,64 @@ export function registerGitHandlers(): void {
     return opResult;
   });
 
+  // Merge a branch into the current one. A conflicted merge stays in progress (MERGE_HEAD) and is
+  // finished or abandoned through sequencerContinue/sequencerAbort. A squash records no MERGE_HEAD,
+  // so its conflicts are only listed in the status and the result is committed as usual.
+  ipcMain.handle(
+    'githulu:git:merge',
+    async (_event, repoId: string, branch: string, options?: MergeOptions) => {
+      const repoPath = validateAndGetRepoPath(repoId);
+      const opId = `op_${uuidv4().slice(0, 8)}`;
+
+      if (!branch || typeof branch !== 'string' || branch.startsWith('-')) {
+        throw new Error('Invalid branch to merge');
+      }
+
+      const mode = options?.mode ?? 'default';
+      if (!['default', 'ff-only', 'no-ff', 'squash'].includes(mode)) {
+        throw new Error('Invalid merge mode');
+      }
+
+      if (options?.message !== undefined && typeof options.message !== 'string') {
+        throw new Error('Invalid merge message');
+      }
+
+      const args = ['merge', '--no-edit'];
+      if (mode !== 'default') args.push(`--${mode}`);
+      if (options?.message?.trim() && mode !== 'squash') args.push('-m', options.message.trim());
+
+      const opResult = await queueOperation(repoPath, 'medium', async () => {
+        emitProgress(repoId, opId, `Merging ${branch}...`);
+
+        const result = await runGitLong(repoPath, [...args, branch], (line) =>
+          emitProgress(repoId, opId, line)
+        );
+
+        // Stopped on a conflict - surface it like a paused rebase
+        const rebaseState = await detectRebaseState(repoPath);
+        sendToRenderer('githulu:event:rebaseStateChanged', {
+          repoId,
+          state: rebaseState,
+        });
+
+        return createOpResult(result.success, result.stdout, result.stderr);
+      });
+
+      // Trigger status refresh AFTER the queued operation completes (avoid deadlock)
+      fetchStatus(repoId, repoPath).catch((err) => {
+        console.warn('[githulu] Failed to fetch status after merge:', err);
+      });
+
+      return opResult;
+    }
+  );
+
   // Start rebase
   ipcMain.handle('githulu:git:rebaseStart', async (_event, repoId: string, onto: string) => {
     const repoPath = validateAndGetRepoPath(repoId);
     const opId = `op_${uuidv4().slice(0, 8)}`;
 
-    if (!onto || typeof onto !== 'string') {
+    if (!onto || typeof onto !== 'string' || onto.startsWith('-')) {
       throw new Error('Invalid rebase target');
     }
 
@@ -750,14 +1682,102 @@ export function registerGitHandlers(): void {
     return opResult;
   });
 
-  // Continue rebase
-  ipcMain.handle('githulu:git:rebaseContinue', async (_event, repoId: string) => {
+  // Load the todo list (commits in onto..HEAD) for an interactive rebase
+  ipcMain.handle('githulu:git:rebaseTodo', async (_event, repoId: string, onto: string) => {
     const repoPath = validateAndGetRepoPath(repoId);
-    const opId = `op_${uuidv4().slice(0, 8)}`;
+
+    if (!onto || typeof onto !== 'string' || onto.startsWith('-')) {
+      throw new Error('Invalid rebase target');
+    }
+
+    return queueOperation(repoPath, 'high', async () => {
+      // Same selection git rebase -i makes: oldest first, merges are flattened away
+      const FIELD_SEP = '<|>';
+      const result = await runGitQuick(repoPath, [
+        'log',
+        '--reverse',
+        '--topo-order',
+        '--no-merges',
+        `--format=%H${FIELD_SEP}%h${FIELD_SEP}%s`,
+        `${onto}..HEAD`,
+      ]);
+
+      if (!result.success) {
+        throw new Error(`Failed to load rebase commits: ${result.stderr}`);
+      }
+
+      return {
+        onto,
+        entries: parseRebaseTodoCommits(result.stdout, FIELD_SEP),
+      } as RebaseTodoResult;
+    });
+  });
+
+  // Start interactive rebase with a todo list edited in the renderer
+  ipcMain.handle(
+    'githulu:git:rebaseInteractive',
+    async (_event, repoId: string, onto: string, entries: RebaseTodoEntry[]) => {
+      const repoPath = validateAndGetRepoPath(repoId);
+      const opId = `op_${uuidv4().slice(0, 8)}`;
+
+      if (!onto || typeof onto !== 'string' || onto.startsWith('-')) {
+        throw new Error('Invalid rebase target');
+      }
+
+      validateRebaseTodo(entries);
+
+      const opResult = await queueOperation(repoPath, 'medium', async () => {
+        const sequenceEditor = await prepareSequenceEditor(entries);
+
+        try {
+          const result = await runGitLong(
+            repoPath,
+            ['rebase', '-i', onto],
+            (line) => emitProgress(repoId, opId, line),
+            undefined,
+            sequenceEditor.env
+          );
+
+          // Emit rebase state change (stopped at "edit" or a conflict, or finished)
+          const rebaseState = await detectRebaseState(repoPath);
+          sendToRenderer('githulu:event:rebaseStateChanged', {
+            repoId,
+            state: rebaseState,
+          });
+
+          // git exits 0 when it stops at an "edit" commit, so go by the state instead
+          if (rebaseState.inProgress) {
+            return { ...createOpResult(false, result.stdout, result.stderr), paused: true };
+          }
+
+          return createOpResult(result.success, result.stdout, result.stderr);
+        } finally {
+          await sequenceEditor.cleanup();
+        }
+      });
+
+      // Trigger status refresh AFTER the queued operation completes (avoid deadlock)
+      fetchStatus(repoId, repoPath).catch((err) => {
+        console.warn('[githulu] Failed to fetch status after interactive rebase:', err);
+      });
+
+      return opResult;
+    }
+  );
+
+  // Continue rebase
+  ipcMain.handle('githulu:git:rebaseContinue', async (_event, repoId: string) => {
+    const repoPath = validateAndGetRepoPath(repoId);
+    const opId = `op_${uuidv4().slice(0, 8)}`;
 
     const opResult = await queueOperation(repoPath, 'medium', async () => {
-      const result = await runGitLong(repoPath, ['rebase', '--continue'], (line) =>
-        emitProgress(repoId, opId, line)
+      // Keep the prepared commit message (e.g. after a squash conflict) instead of opening an editor
+      const result = await runGitLong(
+        repoPath,
+        ['rebase', '--continue'],
+        (line) => emitProgress(repoId, opId, line),
+        undefined,
+        NON_INTERACTIVE_EDITOR_ENV
       );
 
       const rebaseState = await detectRebaseState(repoPath);
@@ -801,6 +1821,202 @@ export function registerGitHandlers(): void {
     return opResult;
   });
 
+  // Cherry-pick commits onto the current branch (applied in the order given)
+  ipcMain.handle('githulu:git:cherryPick', async (_event, repoId: string, hashes: string[]) => {
+    const repoPath = validateAndGetRepoPath(repoId);
+    const opId = `op_${uuidv4().slice(0, 8)}`;
+
+    if (
+      !Array.isArray(hashes) ||
+      hashes.length === 0 ||
+      !hashes.every((hash) => typeof hash === 'string' && /^[0-9a-f]{4,40}$/i.test(hash))
+    ) {
+      throw new Error('Invalid commits to cherry-pick');
+    }
+
+    const opResult = await queueOperation(repoPath, 'medium', async () => {
+      emitProgress(repoId, opId, `Cherry-picking ${hashes.length} commit(s)...`);
+
+      const result = await runGitLong(repoPath, ['cherry-pick', ...hashes], (line) =>
+        emitProgress(repoId, opId, line)
+      );
+
+      // Stopped on a conflict (or an empty pick) - surface it like a paused rebase
+      const rebaseState = await detectRebaseState(repoPath);
+      sendToRenderer('githulu:event:rebaseStateChanged', {
+        repoId,
+        state: rebaseState,
+      });
+
+      return createOpResult(result.success, result.stdout, result.stderr);
+    });
+
+    // Trigger status refresh AFTER the queued operation completes (avoid deadlock)
+    fetchStatus(repoId, repoPath).catch((err) => {
+      console.warn('[githulu] Failed to fetch status after cherry-pick:', err);
+    });
+
+    return opResult;
+  });
+
+  // Revert commits on the current branch (applied in the order given, newest first)
+  ipcMain.handle(
+    'githulu:git:revert',
+    async (_event, repoId: string, hashes: string[], options?: RevertOptions) => {
+      const repoPath = validateAndGetRepoPath(repoId);
+      const opId = `op_${uuidv4().slice(0, 8)}`;
+
+      if (
+        !Array.isArray(hashes) ||
+        hashes.length === 0 ||
+        !hashes.every((hash) => typeof hash === 'string' && /^[0-9a-f]{4,40}$/i.test(hash))
+      ) {
+        throw new Error('Invalid commits to revert');
+      }
+
+      const mainline = options?.mainline;
+      if (mainline !== undefined && (!Number.isInteger(mainline) || mainline < 1)) {
+        throw new Error('Invalid mainline parent');
+      }
+
+      const args = ['revert', '--no-edit'];
+      // With a mainline, git also accepts non-merge commits in the same revert
+      if (mainline) args.push('-m', String(mainline));
+      if (options?.noCommit) args.push('--no-commit');
+
+      const opResult = await queueOperation(repoPath, 'medium', async () => {
+        emitProgress(repoId, opId, `Reverting ${hashes.length} commit(s)...`);
+
+        const result = await runGitLong(repoPath, [...args, ...hashes], (line) =>
+          emitProgress(repoId, opId, line)
+        );
+
+        // --no-commit leaves REVERT_HEAD behind even when nothing conflicted; the changes
+        // are meant to stay staged, so don't report a paused revert
+        if (result.success && options?.noCommit) {
+          await runGitQuick(repoPath, ['revert', '--quit']);
+        }
+
+        // Stopped on a conflict - surface it like a paused rebase
+        const rebaseState = await detectRebaseState(repoPath);
+        sendToRenderer('githulu:event:rebaseStateChanged', {
+          repoId,
+          state: rebaseState,
+        });
+
+        return createOpResult(result.success, result.stdout, result.stderr);
+      });
+
+      // Trigger status refresh AFTER the queued operation completes (avoid deadlock)
+      fetchStatus(repoId, repoPath).catch((err) => {
+        console.warn('[githulu] Failed to fetch status after revert:', err);
+      });
+
+      return opResult;
+    }
+  );
+
+  // Continue, skip or abort whichever operation (rebase, cherry-pick, revert, merge) is in progress
+  ipcMain.handle('githulu:git:sequencerContinue', async (_event, repoId: string) => {
+    const repoPath = validateAndGetRepoPath(repoId);
+    return runSequencerCommand(repoId, repoPath, 'continue');
+  });
+
+  ipcMain.handle('githulu:git:sequencerSkip', async (_event, repoId: string) => {
+    const repoPath = validateAndGetRepoPath(repoId);
+    return runSequencerCommand(repoId, repoPath, 'skip');
+  });
+
+  ipcMain.handle('githulu:git:sequencerAbort', async (_event, repoId: string) => {
+    const repoPath = validateAndGetRepoPath(repoId);
+    return runSequencerCommand(repoId, repoPath, 'abort');
+  });
+
+  // Load a conflicted file as regions from index stages 1-3, for the conflict editor
+  ipcMain.handle('githulu:git:conflictFile', async (_event, repoId: string, filePath: string) => {
+    const repoPath = validateAndGetRepoPath(repoId);
+
+    if (!filePath || typeof filePath !== 'string') {
+      throw new Error('Invalid file path');
+    }
+
+    return queueOperation(repoPath, 'high', () => loadConflictFile(repoPath, filePath));
+  });
+
+  // Write the content resolved in the conflict editor and stage it
+  ipcMain.handle(
+    'githulu:git:resolveConflict',
+    async (_event, repoId: string, filePath: string, content: string) => {
+      const repoPath = validateAndGetRepoPath(repoId);
+
+      if (!filePath || typeof filePath !== 'string') {
+        throw new Error('Invalid file path');
+      }
+
+      if (typeof content !== 'string') {
+        throw new Error('Invalid resolved content');
+      }
+
+      const opResult = await queueOperation(repoPath, 'high', async () => {
+        const result = await writeConflictResolution(repoPath, filePath, content);
+        return createOpResult(result.success, result.stdout, result.stderr);
+      });
+
+      // Trigger status refresh AFTER the queued operation completes (avoid deadlock)
+      fetchStatus(repoId, repoPath).catch((err) => {
+        console.warn('[githulu] Failed to fetch status after resolving conflict:', err);
+      });
+
+      return opResult;
+    }
+  );
+
+  // Resolve a conflict by taking our or their version of the whole file (checkout --ours/--theirs)
+  ipcMain.handle(
+    'githulu:git:resolveConflictSide',
+    async (_event, repoId: string, filePath: string, side: ConflictSide) => {
+      const repoPath = validateAndGetRepoPath(repoId);
+
+      if (!filePath || typeof filePath !== 'string') {
+        throw new Error('Invalid file path');
+      }
+
+      if (side !== 'ours' && side !== 'theirs') {
+        throw new Error('Invalid conflict side');
+      }
+
+      const opResult = await queueOperation(repoPath, 'high', async () => {
+        const result = await resolveConflictWithSide(repoPath, filePath, side);
+        return createOpResult(result.success, result.stdout, result.stderr);
+      });
+
+      // Trigger status refresh AFTER the queued operation completes (avoid deadlock)
+      fetchStatus(repoId, repoPath).catch((err) => {
+        console.warn('[githulu] Failed to fetch status after resolving conflict:', err);
+      });
+
+      return opResult;
+    }
+  );
+
+  // Resolve a conflicted file in the configured mergetool. Not queued, since the
+  // tool stays open until the user closes it; git stages the file afterwards.
+  ipcMain.handle('githulu:git:mergetool', async (_event, repoId: string, filePath: string) => {
+    const repoPath = validateAndGetRepoPath(repoId);
+
+    if (!filePath || typeof filePath !== 'string') {
+      throw new Error('Invalid file path');
+    }
+
+    const result = await runMergeTool(repoPath, filePath);
+
+    fetchStatus(repoId, repoPath).catch((err) => {
+      console.warn('[githulu] Failed to fetch status after mergetool:', err);
+    });
+
+    return createOpResult(result.success, result.stdout, result.stderr);
+  });
+
   // List stashes
   ipcMain.handle('githulu:git:stashList', async (_event, repoId: string) => {
     const repoPath = validateAndGetRepoPath(repoId);
@@ -811,7 +2027,7 @@ export function registerGitHandlers(): void {
       const result = await runGitQuick(repoPath, [
         'stash',
         'list',
-        `--format=%gd${FIELD_SEP}%gs${FIELD_SEP}%H${FIELD_SEP}%ci`,
+        `--format=%gd${FIELD_SEP}%gs${FIELD_SEP}%H${FIELD_SEP}%ci${FIELD_SEP}%P`,
       ]);
 
       if (!result.success) {
@@ -819,16 +2035,42 @@ export function registerGitHandlers(): void {
       }
 
       const stashes = parseStashList(result.stdout, FIELD_SEP);
+
       return { stashes };
     });
   });
 
+  // Files and diffs of a stash, including stashed untracked files
+  ipcMain.handle('githulu:git:showStash', async (_event, repoId: string, index: number) => {
+    const repoPath = validateAndGetRepoPath(repoId);
+
+    if (!Number.isInteger(index) || index < 0) {
+      throw new Error('Invalid stash index');
+    }
+
+    return queueOperation(repoPath, 'low', () => showStash(repoPath, index));
+  });
+
   // Create stash
   ipcMain.handle(
     'githulu:git:stashPush',
-    async (_event, repoId: string, message?: string, includeUntracked?: boolean) => {
+    async (
+      _event,
+      repoId: string,
+      message?: string,
+      includeUntracked?: boolean,
+      options: StashPushOptions = {}
+    ) => {
       const repoPath = validateAndGetRepoPath(repoId);
 
+      const { paths, keepIndex } = options;
+      if (
+        paths !== undefined &&
+        (!Array.isArray(paths) || paths.some((p) => !p || typeof p !== 'string'))
+      ) {
+        throw new Error('Invalid paths');
+      }
+
       const opResult = await queueOperation(repoPath, 'high', async () => {
         const args = ['stash', 'push'];
 
@@ -840,6 +2082,14 @@ export function registerGitHandlers(): void {
           args.push('-u');
         }
 
+        if (keepIndex) {
+          args.push('--keep-index');
+        }
+
+        if (paths && paths.length > 0) {
+          args.push('--', ...paths);
+        }
+
         const result = await runGitQuick(repoPath, args);
         return createOpResult(result.success, result.stdout, result.stderr);
       });
@@ -912,6 +2162,173 @@ export function registerGitHandlers(): void {
       return createOpResult(result.success, result.stdout, result.stderr);
     });
   });
+
+  // Create a branch at the stash's base commit, apply the stash there and drop it if that succeeds
+  ipcMain.handle(
+    'githulu:git:stashBranch',
+    async (_event, repoId: string, index: number, name: string) => {
+      const repoPath = validateAndGetRepoPath(repoId);
+
+      if (!Number.isInteger(index) || index < 0) {
+        throw new Error('Invalid stash index');
+      }
+
+      if (!name || typeof name !== 'string' || name.startsWith('-')) {
+        throw new Error('Invalid branch name');
+      }
+
+      const opResult = await queueOperation(repoPath, 'medium', async () => {
+        const result = await runGitQuick(repoPath, ['stash', 'branch', name, `stash@{${index}}`]);
+        return createOpResult(result.success, result.stdout, result.stderr);
+      });
+
+      // Always refresh status (the branch may be created even if applying conflicts)
+      fetchStatus(repoId, repoPath).catch((err) => {
+        console.warn('[githulu] Failed to fetch status after stash branch:', err);
+      });
+
+      return opResult;
+    }
+  );
+
+  // List tags (newest first)
+  ipcMain.handle('githulu:git:tags', async (_event, repoId: string) => {
+    const repoPath = validateAndGetRepoPath(repoId);
+
+    return queueOperation(repoPath, 'low', async () => {
+      // Tag messages can span lines, so records end with an ASCII record separator (%1e)
+      const FIELD_SEP = '<|>';
+      const format = [
+        '%(refname:short)',
+        '%(objecttype)',
+        '%(objectname)',
+        '%(*objectname)',
+        '%(subject)',
+        '%(*subject)',
+        '%(taggername)',
+        '%(taggeremail:trim)',
+        '%(creatordate:iso-strict)',
+        '%(contents:subject)',
+        '%(contents:body)',
+      ].join(FIELD_SEP);
+
+      const result = await runGitQuick(repoPath, [
+        'for-each-ref',
+        'refs/tags',
+        '--sort=-creatordate',
+        `--format=${format}%1e`,
+      ]);
+
+      if (!result.success) {
+        throw new Error(`Failed to list tags: ${result.stderr}`);
+      }
+
+      return { tags: parseTagList(result.stdout, FIELD_SEP) } as TagListResult;
+    });
+  });
+
+  // Create tag (annotated when a message is given, lightweight otherwise)
+  ipcMain.handle(
+    'githulu:git:createTag',
+    async (_event, repoId: string, name: string, target: string, message?: string) => {
+      const repoPath = validateAndGetRepoPath(repoId);
+
+      if (!name || typeof name !== 'string' || name.startsWith('-')) {
+        throw new Error('Invalid tag name');
+      }
+
+      if (!target || typeof target !== 'string' || target.startsWith('-')) {
+        throw new Error('Invalid tag target');
+      }
+
+      return queueOperation(repoPath, 'medium', async () => {
+        const args = message?.trim()
+          ? ['tag', '-a', name, '-m', message.trim(), target]
+          : ['tag', name, target];
+
+        const result = await runGitQuick(repoPath, args);
+        return createOpResult(result.success, result.stdout, result.stderr);
+      });
+    }
+  );
+
+  // Delete tag locally, and from a remote when one is given
+  ipcMain.handle(
+    'githulu:git:deleteTag',
+    async (_event, repoId: string, name: string, remote?: string) => {
+      const repoPath = validateAndGetRepoPath(repoId);
+      const opId = `op_${uuidv4().slice(0, 8)}`;
+
+      if (!name || typeof name !== 'string' || name.startsWith('-')) {
+        throw new Error('Invalid tag name');
+      }
+
+      if (remote !== undefined && (typeof remote !== 'string' || remote.startsWith('-'))) {
+        throw new Error('Invalid remote name');
+      }
+
+      return queueCancellableOperation(repoId, repoPath, opId, async (signal) => {
+        // A tag that only exists on the remote can still be deleted there
+        const tagRef = `refs/tags/${name}`;
+        const existsLocally =
+          !remote ||
+          (await runGitQuick(repoPath, ['rev-parse', '--verify', '--quiet', tagRef])).success;
+
+        const localResult = existsLocally
+          ? await runGitQuick(repoPath, ['tag', '-d', name])
+          : createOpResult(true, '', '');
+
+        if (!localResult.success || !remote) {
+          return createOpResult(localResult.success, localResult.stdout, localResult.stderr);
+        }
+
+        const remoteResult = await runGitLong(
+          repoPath,
+          ['push', remote, '--delete', tagRef],
+          (line) => emitProgress(repoId, opId, line),
+          signal
+        );
+
+        return createOpResult(
+          remoteResult.success,
+          [localResult.stdout, remoteResult.stdout].filter(Boolean).join('\n'),
+          remoteResult.stderr
+        );
+      });
+    }
+  );
+
+  // Push a single tag, or all tags when no name is given
+  ipcMain.handle(
+    'githulu:git:pushTags',
+    async (_event, repoId: string, remote?: string, name?: string) => {
+      const repoPath = validateAndGetRepoPath(repoId);
+      const opId = `op_${uuidv4().slice(0, 8)}`;
+
+      if (remote !== undefined && (typeof remote !== 'string' || remote.startsWith('-'))) {
+        throw new Error('Invalid remote name');
+      }
+
+      if (name !== undefined && (typeof name !== 'string' || !name || name.startsWith('-'))) {
+        throw new Error('Invalid tag name');
+      }
+
+      return queueCancellableOperation(repoId, repoPath, opId, async (signal) => {
+        const pushRemote = remote || (await resolveDefaultRemote(repoPath));
+        const args = name
+          ? ['push', '--progress', pushRemote, `refs/tags/${name}`]
+          : ['push', '--progress', pushRemote, '--tags'];
+
+        const result = await runGitLong(
+          repoPath,
+          args,
+          (line) => emitProgress(repoId, opId, line),
+          signal
+        );
+        return createOpResult(result.success, result.stdout, result.stderr);
+      });
+    }
+  );
 }
 
 /**
@@ -921,55 +2338,101 @@ async function fetchStatus(repoId: string, repoPath: string): Promise<RepoStatus
   console.log(`[githulu] fetchStatus called for ${repoId}`);
   return queueOperation(repoPath, 'high', async () => {
     console.log(`[githulu] fetchStatus executing for ${repoId}`);
-    // Get status
-    const statusResult = await runGitQuick(repoPath, ['status', '--porcelain=v2', '-b']);
+    const status = await readRepoStatus(repoId, repoPath);
 
-    if (!statusResult.success) {
-      console.error(`[githulu] fetchStatus git command failed for ${repoId}`);
-      throw new Error(`Failed to get status: ${statusResult.stderr}`);
-    }
+    // Cache and emit
+    setRepoStatusCache(repoId, status);
+    sendToRenderer('githulu:event:repoStatusUpdated', { repoId, status });
 
-    console.log(`[githulu] fetchStatus parsing for ${repoId}`);
-    const parsed = parseStatusPorcelainV2(statusResult.stdout);
+    // Start watching for file changes (auto-refresh)
+    await startWatching(repoId, repoPath);
 
-    // Check rebase state
-    console.log(`[githulu] fetchStatus detecting rebase state for ${repoId}`);
-    const rebaseState = await detectRebaseState(repoPath);
+    console.log(`[githulu] fetchStatus completed for ${repoId}`);
+    return status;
+  });
+}
 
-    // If in rebase, add conflict files to rebase state
-    if (rebaseState.inProgress) {
-      rebaseState.conflicts = parsed.conflicts.map((c) => c.path);
+/**
+ * Run `git <operation> --continue|--skip|--abort` for the sequencer operation
+ * currently in progress, then report the new state.
+ */
+async function runSequencerCommand(
+  repoId: string,
+  repoPath: string,
+  action: 'continue' | 'skip' | 'abort'
+): Promise<OpResult> {
+  const opId = `op_${uuidv4().slice(0, 8)}`;
+
+  const opResult = await queueOperation(repoPath, 'medium', async () => {
+    const state = await detectRebaseState(repoPath);
+    if (!state.inProgress || !state.operation) {
+      return createOpResult(false, '', 'No rebase, cherry-pick, revert or merge in progress');
+    }
+
+    if (state.operation === 'merge' && action === 'skip') {
+      return createOpResult(false, '', 'A merge cannot be skipped - abort it instead');
     }
 
-    console.log(`[githulu] fetchStatus building status object for ${repoId}`);
-    const status: RepoStatus = {
+    // Keep prepared commit messages instead of opening an editor
+    const result = await runGitLong(
+      repoPath,
+      [state.operation, `--${action}`],
+      (line) => emitProgress(repoId, opId, line),
+      undefined,
+      NON_INTERACTIVE_EDITOR_ENV
+    );
+
+    sendToRenderer('githulu:event:rebaseStateChanged', {
       repoId,
-      path: repoPath,
-      branch: parsed.branch,
-      upstream: parsed.upstream,
-      ahead: parsed.ahead,
-      behind: parsed.behind,
-      isDirty:
-        parsed.staged.length > 0 || parsed.unstaged.length > 0 || parsed.untracked.length > 0,
-      rebase: rebaseState,
-      changes: {
-        staged: parsed.staged,
-        unstaged: parsed.unstaged,
-        untracked: parsed.untracked,
-      },
-      lastUpdatedAt: Date.now(),
-    };
+      state: await detectRebaseState(repoPath),
+    });
 
-    // Cache and emit
-    setRepoStatusCache(repoId, status);
-    sendToRenderer('githulu:event:repoStatusUpdated', { repoId, status });
+    return createOpResult(result.success, result.stdout, result.stderr);
+  });
 
-    // Start watching for file changes (auto-refresh)
-    startWatching(repoId, repoPath);
+  // Trigger status refresh AFTER the queued operation completes (avoid deadlock)
+  fetchStatus(repoId, repoPath).catch((err) => {
+    console.warn(`[githulu] Failed to fetch status after sequencer ${action}:`, err);
+  });
 
-    console.log(`[githulu] fetchStatus completed for ${repoId}`);
-    return status;
+  return opResult;
+}
+
+/**
+ * Snapshot and then discard changes. Targets are resolved inside the queued
+ * operation so they match the working copy at the moment of discarding.
+ */
+async function discardChanges(
+  repoId: string,
+  repoPath: string,
+  filePaths: string[] | undefined,
+  untrackedOnly: boolean
+): Promise<OpResult> {
+  const opResult = await queueOperation(repoPath, 'high', async () => {
+    const targets = await resolveDiscardTargets(repoPath, filePaths);
+    if (untrackedOnly) {
+      targets.tracked = [];
+    }
+
+    if (targets.tracked.length === 0 && targets.untracked.length === 0) {
+      return createOpResult(false, '', 'Nothing to discard');
+    }
+
+    // Never discard anything that couldn't be backed up first
+    await createDiscardSnapshot(repoPath, targets);
+
+    const result = await discardTargets(repoPath, targets);
+    return createOpResult(result.success, result.stdout, result.stderr);
   });
+
+  // Trigger status refresh AFTER the queued operation completes (avoid deadlock)
+  if (opResult.success) {
+    fetchStatus(repoId, repoPath).catch((err) => {
+      console.warn('[githulu] Failed to fetch status after discard:', err);
+    });
+  }
+
+  return opResult;
 }
 
 /**
@@ -0,0 +1,78 @@
+import { ipcMain } from 'electron';
+import { queueOperation, cancelOperation, releaseOpId } from '../git/queue.js';
+import { parseProgressLine } from '../git/progress.js';
+import { sendToRenderer } from '../window.js';
+import type { OperationProgressEvent, OpResult } from '../../shared/types.js';
+
+// Operations the user asked to cancel, so their failure is reported as a cancellation
+const cancelRequested = new Set<string>();
+
+/**
+ * Emit progress event to renderer
+ */
+export function emitProgress(repoId: string, opId: string, line: string): void {
+  const event: OperationProgressEvent = {
+    repoId,
+    opId,
+    line,
+    progress: parseProgressLine(line),
+  };
+  sendToRenderer('githulu:event:operationProgress', event);
+}
+
+/**
+ * Queue a long operation under its opId so it can be cancelled, and tell the
+ * renderer the opId before any progress arrives. Only for network operations:
+ * stopping git partway through a merge, rebase or cherry-pick would leave it
+ * half-applied. A cancelled operation resolves with `cancelled` set.
+ */
+export async function queueCancellableOperation<T extends OpResult>(
+  repoId: string,
+  repoPath: string,
+  opId: string,
+  execute: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  sendToRenderer('githulu:event:operationStarted', { repoId, opId });
+
+  try {
+    return await queueOperation(repoPath, 'medium', execute, opId);
+  } catch (error) {
+    if (cancelRequested.has(opId)) {
+      return { opId, success: false, stderr: 'Operation cancelled', cancelled: true } as T;
+    }
+    throw error;
+  } finally {
+    cancelRequested.delete(opId);
+  }
+}
+
+/**
+ * End the cancellable part of an operation before a step that mustn't be
+ * interrupted, such as the merge or rebase of a pull, and let the renderer
+ * hide its cancel button. A cancel that arrived just before still stops it.
+ */
+export function endCancellableStep(repoId: string, opId: string, signal: AbortSignal): void {
+  releaseOpId(opId);
+  if (signal.aborted) {
+    throw new Error('Operation cancelled');
+  }
+  sendToRenderer('githulu:event:operationUncancellable', { repoId, opId });
+}
+
+/**
+ * Register handlers for long-running operations
+ */
+export function registerOpsHandlers(): void {
+  // Cancel a queued or running operation by its opId
+  ipcMain.handle('githulu:ops:cancel', async (_event, opId: string): Promise<boolean> => {
+    if (!opId || typeof opId !== 'string') {
+      throw new Error('Invalid operation ID');
+    }
+
+    const found = cancelOperation(opId);
+    if (found) {
+      cancelRequested.add(opId);
+    }
+    return found;
+  });
+}
@@ -1,12 +1,15 @@
 import { ipcMain } from 'electron';
+import * as path from 'node:path';
 import { v4 as uuidv4 } from 'uuid';
 import {
   getStorage,
   getGroups,
   getRepoById,
   getRepoByPath,
+  getGroupById,
   addRepo,
   removeRepo,
+  updateRepo,
   addGroup,
   updateGroup,
   deleteGroup,
@@ -15,7 +18,88 @@ import {
   getUIState,
 } from '../storage/index.js';
 import { isGitRepository, getRepoRoot } from '../git/runner.js';
-import type { Group, Repo } from '../../shared/types.js';
+import { clearGitDirCache } from '../git/git-dir.js';
+import { cloneRepository } from '../git/clone.js';
+import { initRepository, GITIGNORE_TEMPLATES } from '../git/init.js';
+import { findRepositories } from '../git/scan.js';
+import { queueOperation } from '../git/queue.js';
+import { getAutoFetchStates, rescheduleAutoFetch } from '../scheduler/auto-fetch.js';
+import { emitProgress, queueCancellableOperation } from './ops.js';
+import type {
+  Group,
+  Repo,
+  CloneOptions,
+  CloneResult,
+  InitOptions,
+  InitResult,
+  ScanFolderOptions,
+  ScanFolderResult,
+} from '../../shared/types.js';
+
+/**
+ * Validate an optional group ID
+ */
+function validateGroupId(groupId: unknown): void {
+  if (groupId !== undefined && (typeof groupId !== 'string' || !getGroupById(groupId))) {
+    throw new Error('Invalid group ID');
+  }
+}
+
+/**
+ * Find a group by name, ignoring case, or create it
+ */
+async function findOrCreateGroup(name: string): Promise<Group> {
+  const existing = getGroups().find((g) => g.name.toLowerCase() === name.toLowerCase());
+  if (existing) {
+    return existing;
+  }
+
+  const group: Group = {
+    id: `grp_${uuidv4().slice(0, 10)}`,
+    name,
+    repoIds: [],
+  };
+  await addGroup(group);
+  return group;
+}
+
+/**
+ * Bookmark the repository containing a folder in the given group (the first group by default)
+ */
+async function bookmarkRepo(folderPath: string, groupId?: string): Promise<Repo> {
+  // Check if it's a git repository
+  const isRepo = await isGitRepository(folderPath);
+  if (!isRepo) {
+    throw new Error('The selected folder is not a Git repository');
+  }
+
+  // Get the repo root (in case user selected a subdirectory)
+  const repoRoot = await getRepoRoot(folderPath);
+  if (!repoRoot) {
+    throw new Error('Could not determine repository root');
+  }
+
+  // Check if already added
+  const existing = getRepoByPath(repoRoot);
+  if (existing) {
+    throw new Error('This repository has already been added');
+  }
+
+  // Extract display name from path
+  const displayName = repoRoot.split('/').pop() || 'Unknown';
+
+  // Create repo entry
+  const repo: Repo = {
+    id: `repo_${uuidv4().slice(0, 10)}`,
+    path: repoRoot,
+    displayName,
+  };
+
+  // Add to storage (default group unless one was given)
+  await addRepo(repo, groupId);
+
+  return repo;
+}
 
 /**
  * Register all repository management IPC handlers
@@ -32,45 +116,167 @@ export function registerReposHandlers(): void {
   });
 
   // Add a new repository
-  ipcMain.handle('githulu:repos:add', async (_event, folderPath: string) => {
+  ipcMain.handle('githulu:repos:add', async (_event, folderPath: string, groupId?: string) => {
     // Validate input
     if (!folderPath || typeof folderPath !== 'string') {
       throw new Error('Invalid folder path');
     }
 
-    // Check if it's a git repository
-    const isRepo = await isGitRepository(folderPath);
-    if (!isRepo) {
-      throw new Error('The selected folder is not a Git repository');
-    }
+    validateGroupId(groupId);
 
-    // Get the repo root (in case user selected a subdirectory)
-    const repoRoot = await getRepoRoot(folderPath);
-    if (!repoRoot) {
-      throw new Error('Could not determine repository root');
-    }
+    const repo = await bookmarkRepo(folderPath, groupId);
+    return { repo };
+  });
 
-    // Check if already added
-    const existing = getRepoByPath(repoRoot);
-    if (existing) {
-      throw new Error('This repository has already been added');
+  // Clone a repository into a new folder and bookmark it
+  // Progress is reported under the destination folder, as there's no repo ID yet
+  ipcMain.handle(
+    'githulu:repos:clone',
+    async (_event, options: CloneOptions, groupId?: string): Promise<CloneResult> => {
+      if (!options || typeof options !== 'object') {
+        throw new Error('Invalid clone options');
+      }
+
+      if (!options.url || typeof options.url !== 'string' || options.url.startsWith('-')) {
+        throw new Error('Invalid repository URL');
+      }
+
+      if (!options.dest || typeof options.dest !== 'string' || !path.isAbsolute(options.dest)) {
+        throw new Error('Invalid destination folder');
+      }
+
+      if (
+        options.branch !== undefined &&
+        (typeof options.branch !== 'string' || !options.branch || options.branch.startsWith('-'))
+      ) {
+        throw new Error('Invalid branch name');
+      }
+
+      if (options.depth !== undefined && (!Number.isInteger(options.depth) || options.depth < 1)) {
+        throw new Error('Invalid depth');
+      }
+
+      validateGroupId(groupId);
+
+      const dest = path.resolve(options.dest);
+      const opId = `op_${uuidv4().slice(0, 8)}`;
+
+      const result = await queueCancellableOperation(dest, dest, opId, async (signal) => {
+        const cloneResult = await cloneRepository(
+          {
+            url: options.url,
+            dest,
+            branch: options.branch,
+            depth: options.depth,
+            recurseSubmodules: options.recurseSubmodules === true,
+          },
+          (line) => emitProgress(dest, opId, line),
+          signal
+        );
+
+        return {
+          opId,
+          success: cloneResult.success,
+          stdout: cloneResult.stdout,
+          stderr: cloneResult.stderr,
+        };
+      });
+
+      const repo = result.success ? await bookmarkRepo(dest, groupId) : null;
+
+      return { ...result, repo };
     }
+  );
 
-    // Extract display name from path
-    const displayName = repoRoot.split('/').pop() || 'Unknown';
+  // Initialize a new repository in a folder and bookmark it
+  ipcMain.handle(
+    'githulu:repos:init',
+    async (
+      _event,
+      folderPath: string,
+      options?: InitOptions,
+      groupId?: string
+    ): Promise<InitResult> => {
+      if (!folderPath || typeof folderPath !== 'string' || !path.isAbsolute(folderPath)) {
+        throw new Error('Invalid folder path');
+      }
 
-    // Create repo entry
-    const repo: Repo = {
-      id: `repo_${uuidv4().slice(0, 10)}`,
-      path: repoRoot,
-      displayName,
-    };
+      if (
+        options?.gitignoreTemplate !== undefined &&
+        !Object.hasOwn(GITIGNORE_TEMPLATES, options.gitignoreTemplate)
+      ) {
+        throw new Error('Invalid .gitignore template');
+      }
 
-    // Add to storage (will be added to default group)
-    await addRepo(repo);
+      validateGroupId(groupId);
 
-    return { repo };
-  });
+      const repoPath = path.resolve(folderPath);
+
+      // git init would only reinitialize an existing repo
+      if ((await getRepoRoot(repoPath)) === repoPath) {
+        throw new Error('This folder is already a Git repository');
+      }
+
+      const opId = `op_${uuidv4().slice(0, 8)}`;
+      const result = await queueOperation(repoPath, 'medium', () =>
+        initRepository(repoPath, {
+          initialCommit: options?.initialCommit === true,
+          gitignoreTemplate: options?.gitignoreTemplate,
+        })
+      );
+
+      // The repo exists even if the initial commit failed, e.g. without a configured identity
+      const repo = (await isGitRepository(repoPath)) ? await bookmarkRepo(repoPath, groupId) : null;
+
+      return {
+        opId,
+        success: result.success,
+        stdout: result.stdout,
+        stderr: result.stderr,
+        repo,
+      };
+    }
+  );
+
+  // Find repositories in a folder and below it, and bookmark the ones that aren't yet
+  ipcMain.handle(
+    'githulu:repos:scanFolder',
+    async (_event, rootPath: string, options?: ScanFolderOptions): Promise<ScanFolderResult> => {
+      if (!rootPath || typeof rootPath !== 'string' || !path.isAbsolute(rootPath)) {
+        throw new Error('Invalid folder path');
+      }
+
+      validateGroupId(options?.groupId);
+
+      const root = path.resolve(rootPath);
+      const added: Repo[] = [];
+      const skipped: string[] = [];
+
+      for (const repoPath of await findRepositories(root)) {
+        if (getRepoByPath(repoPath)) {
+          skipped.push(repoPath);
+          continue;
+        }
+
+        try {
+          let groupId = options?.groupId;
+          if (options?.groupPerParent) {
+            // Named after the parent folder relative to the scanned one, e.g. "work/clients"
+            const parent = path.relative(root, path.dirname(repoPath));
+            const name = parent && !parent.startsWith('..') ? parent : path.basename(root);
+            groupId = (await findOrCreateGroup(name)).id;
+          }
+
+          added.push(await bookmarkRepo(repoPath, groupId));
+        } catch {
+          // Already bookmarked, or not a usable repo
+          skipped.push(repoPath);
+        }
+      }
+
+      return { added, skipped };
+    }
+  );
 
   // Remove a repository
   ipcMain.handle('githulu:repos:remove', async (_event, repoId: string) => {
@@ -85,6 +291,7 @@ export function registerReposHandlers(): void {
     }
 
     await removeRepo(repoId);
+    clearGitDirCache(repo.path);
   });
 
   // Create a new group
@@ -195,4 +402,28 @@ export function registerReposHandlers(): void {
       await reorderRepo(groupId, fromIndex, toIndex);
     }
   );
+
+  // Turn background fetching on or off for a repo
+  ipcMain.handle('githulu:repos:setAutoFetch', async (_event, repoId: string, enabled: boolean) => {
+    if (!repoId || typeof repoId !== 'string') {
+      throw new Error('Invalid repo ID');
+    }
+
+    if (typeof enabled !== 'boolean') {
+      throw new Error('Invalid auto-fetch setting');
+    }
+
+    const repo = getRepoById(repoId);
+    if (!repo) {
+      throw new Error(`Repository not found: ${repoId}`);
+    }
+
+    await updateRepo(repoId, { autoFetch: enabled });
+    rescheduleAutoFetch({ ...repo, autoFetch: enabled });
+  });
+
+  // Auto-fetch schedule of every repo
+  ipcMain.handle('githulu:repos:autoFetchStates', async () => {
+    return getAutoFetchStates();
+  });
 }
@@ -0,0 +1,97 @@
+import { ipcMain } from 'electron';
+import { getSettings, updateSettings } from '../storage/index.js';
+import { restartAllWatchers, startPolling } from '../watchers/repo-watcher.js';
+import type { EditorId, Settings } from '../../shared/types.js';
+
+const EDITOR_IDS: EditorId[] = ['cursor', 'vscode', 'sublime', 'custom'];
+
+/**
+ * Clamp a whole number setting to its allowed range
+ */
+function clampSetting(value: unknown, min: number, max: number, name: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`Invalid ${name}`);
+  }
+  return Math.max(min, Math.min(max, Math.round(value)));
+}
+
+/**
+ * Register application settings IPC handlers
+ */
+export function registerSettingsHandlers(): void {
+  // Get settings
+  ipcMain.handle('githulu:settings:get', async (): Promise<Settings> => {
+    return getSettings();
+  });
+
+  // Update some or all settings and apply them
+  ipcMain.handle(
+    'githulu:settings:set',
+    async (_event, updates: Partial<Settings>): Promise<Settings> => {
+      if (!updates || typeof updates !== 'object') {
+        throw new Error('Invalid settings');
+      }
+
+      const validated: Partial<Settings> = {};
+
+      if (updates.editorCommand !== undefined) {
+        if (!EDITOR_IDS.includes(updates.editorCommand)) {
+          throw new Error('Invalid editor');
+        }
+        validated.editorCommand = updates.editorCommand;
+      }
+
+      if (updates.customEditorCommand !== undefined) {
+        if (typeof updates.customEditorCommand !== 'string') {
+          throw new Error('Invalid editor command');
+        }
+        validated.customEditorCommand = updates.customEditorCommand.trim();
+      }
+
+      if (updates.refreshInterval !== undefined) {
+        validated.refreshInterval = clampSetting(
+          updates.refreshInterval,
+          5,
+          300,
+          'refresh interval'
+        );
+      }
+
+      if (updates.autoFetchInterval !== undefined) {
+        validated.autoFetchInterval = clampSetting(
+          updates.autoFetchInterval,
+          1,
+          120,
+          'auto-fetch interval'
+        );
+      }
+
+      if (updates.watchWorkingTree !== undefined) {
+        if (typeof updates.watchWorkingTree !== 'boolean') {
+          throw new Error('Invalid watch setting');
+        }
+        validated.watchWorkingTree = updates.watchWorkingTree;
+      }
+
+      if (updates.showHiddenFiles !== undefined) {
+        if (typeof updates.showHiddenFiles !== 'boolean') {
+          throw new Error('Invalid hidden files setting');
+        }
+        validated.showHiddenFiles = updates.showHiddenFiles;
+      }
+
+      const previous = getSettings();
+      const settings = await updateSettings(validated);
+
+      // Editor and auto-fetch interval are read when used; these need restarting
+      if (settings.watchWorkingTree !== previous.watchWorkingTree) {
+        restartAllWatchers();
+      }
+      if (settings.refreshInterval !== previous.refreshInterval) {
+        startPolling();
+      }
+
+      return settings;
+    }
+  );
+}
@@ -0,0 +1,156 @@
+import { getRepos, getRepoById, getSettings } from '../storage/index.js';
+import { queueOperation } from '../git/queue.js';
+import { fetchAllRemotes } from '../git/remotes.js';
+import { refreshRepoStatus } from '../watchers/repo-watcher.js';
+import { sendToRenderer } from '../window.js';
+import type { AutoFetchState, Repo } from '../../shared/types.js';
+
+/**
+ * Auto-fetch scheduler
+ *
+ * Periodically runs `git fetch --all --prune` for every bookmarked repo so
+ * ahead/behind counts stay current without user action:
+ * - Repos are fetched every autoFetchInterval minutes (from settings)
+ * - Fetches are queued at low priority, behind anything the user started
+ * - Repos with autoFetch set to false are skipped
+ * - Each consecutive failure doubles the delay before the next attempt
+ */
+
+// Longest delay after repeated failures
+const MAX_BACKOFF = 60 * 60 * 1000;
+
+// How often to look for repos that are due
+const TICK_INTERVAL = 30 * 1000;
+
+// Schedule state keyed by repo ID
+const states = new Map<string, AutoFetchState>();
+
+// Repos with a fetch queued or running
+const inFlight = new Set<string>();
+
+let tickTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Start the scheduler. The first fetches happen on the first tick, so they
+ * don't compete with the initial status loads.
+ */
+export function startAutoFetch(): void {
+  if (tickTimer) {
+    return;
+  }
+
+  tickTimer = setInterval(tick, TICK_INTERVAL);
+  console.log('[githulu] Auto-fetch scheduler started');
+}
+
+/**
+ * Stop the scheduler
+ */
+export function stopAutoFetch(): void {
+  if (tickTimer) {
+    clearInterval(tickTimer);
+    tickTimer = null;
+  }
+}
+
+/**
+ * Schedule state of every bookmarked repo
+ */
+export function getAutoFetchStates(): AutoFetchState[] {
+  return getRepos().map((repo) => getState(repo));
+}
+
+/**
+ * Reschedule a repo after its autoFetch setting changed. Turning it back on
+ * clears any backoff and fetches on the next tick.
+ */
+export function rescheduleAutoFetch(repo: Repo): void {
+  const state = getState(repo);
+  state.failures = 0;
+  state.lastError = null;
+  state.nextFetchAt = repo.autoFetch === false ? null : Date.now();
+  emitState(state);
+}
+
+function getState(repo: Repo): AutoFetchState {
+  let state = states.get(repo.id);
+  if (!state) {
+    state = {
+      repoId: repo.id,
+      lastFetchedAt: null,
+      nextFetchAt: repo.autoFetch === false ? null : Date.now(),
+      failures: 0,
+      lastError: null,
+    };
+    states.set(repo.id, state);
+  }
+  return state;
+}
+
+function tick(): void {
+  const repos = getRepos();
+
+  // Forget repos that are no longer bookmarked
+  for (const repoId of states.keys()) {
+    if (!repos.some((repo) => repo.id === repoId)) {
+      states.delete(repoId);
+    }
+  }
+
+  const now = Date.now();
+  for (const repo of repos) {
+    const state = getState(repo);
+    if (state.nextFetchAt !== null && state.nextFetchAt <= now && !inFlight.has(repo.id)) {
+      fetchRepo(repo).catch((err) => {
+        console.warn(`[githulu] Auto-fetch failed for ${repo.id}:`, err);
+      });
+    }
+  }
+}
+
+async function fetchRepo(repo: Repo): Promise<void> {
+  inFlight.add(repo.id);
+
+  let error: string | null = null;
+  try {
+    const result = await queueOperation(repo.path, 'low', () => fetchAllRemotes(repo.path));
+    if (!result.success) {
+      error = result.stderr || 'Fetch failed';
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  } finally {
+    inFlight.delete(repo.id);
+  }
+
+  // The repo may have been removed while the fetch was queued
+  const current = getRepoById(repo.id);
+  const state = states.get(repo.id);
+  if (!current || !state) {
+    return;
+  }
+
+  const now = Date.now();
+  if (error) {
+    state.failures++;
+    state.lastError = error;
+  } else {
+    state.failures = 0;
+    state.lastError = null;
+    state.lastFetchedAt = now;
+  }
+
+  const interval = getSettings().autoFetchInterval * 60 * 1000;
+  const delay = Math.min(interval * 2 ** state.failures, MAX_BACKOFF);
+  state.nextFetchAt = current.autoFetch === false ? null : now + delay;
+  emitState(state);
+
+  // Pick up the new ahead/behind counts
+  if (!error) {
+    await refreshRepoStatus(current.id, current.path, false);
+  }
+}
+
+function emitState(state: AutoFetchState): void {
+  sendToRenderer('githulu:event:autoFetchUpdated', { repoId: state.repoId, state });
+}
@@ -0,0 +1,13 @@
+import type { Settings } from '../../shared/types.js';
+
+/**
+ * Settings for new installs, and for storage migrated from before settings existed
+ */
+export const DEFAULT_SETTINGS: Settings = {
+  editorCommand: 'cursor',
+  customEditorCommand: '',
+  refreshInterval: 30,
+  watchWorkingTree: true,
+  showHiddenFiles: true,
+  autoFetchInterval: 5,
+};
@@ -1,10 +1,11 @@
 import { app } from 'electron';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
-import type { StorageSchema, Group, Repo, UIState } from '../../shared/types.js';
+import type { StorageSchema, Group, Repo, UIState, Settings } from '../../shared/types.js';
 import { migrate } from './migrations.js';
+import { DEFAULT_SETTINGS } from './defaults.js';
 
-const CURRENT_VERSION = 1;
+const CURRENT_VERSION = 2;
 const STORAGE_FILENAME = 'githulu.json';
 
 let storageData: StorageSchema | null = null;
@@ -81,6 +82,7 @@ function createDefaultStorage(): StorageSchema {
       sidebarWidth: 280,
       rightPaneWidth: 400,
     },
+    settings: { ...DEFAULT_SETTINGS },
   };
 }
 
@@ -171,6 +173,16 @@ export async function addRepo(repo: Repo, groupId?: string): Promise<void> {
   await saveStorage();
 }
 
+export async function updateRepo(repoId: string, updates: Partial<Repo>): Promise<void> {
+  const storage = getStorage();
+  const index = storage.repos.findIndex((r) => r.id === repoId);
+  if (index === -1) {
+    throw new Error(`Repository not found: ${repoId}`);
+  }
+  storage.repos[index] = { ...storage.repos[index], ...updates };
+  await saveStorage();
+}
+
 export async function removeRepo(repoId: string): Promise<void> {
   const storage = getStorage();
 
@@ -259,3 +271,18 @@ export async function updateUIState(updates: Partial<UIState>): Promise<void> {
   storage.ui = { ...storage.ui, ...updates };
   await saveStorage();
 }
+
+// ============================================
+// Settings Operations
+// ============================================
+
+export function getSettings(): Settings {
+  return getStorage().settings;
+}
+
+export async function updateSettings(updates: Partial<Settings>): Promise<Settings> {
+  const storage = getStorage();
+  storage.settings = { ...storage.settings, ...updates };
+  await saveStorage();
+  return storage.settings;
+}
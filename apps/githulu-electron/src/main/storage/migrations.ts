@@ -1,4 +1,5 @@
 import type { StorageSchema } from '../../shared/types.js';
+import { DEFAULT_SETTINGS } from './defaults.js';
 
 /**
  * Apply migrations from one version to another
@@ -25,12 +26,11 @@ export function migrate(
  * Migration functions keyed by the version they migrate FROM
  */
 const migrations: Record<number, (data: StorageSchema) => StorageSchema> = {
-  // Example: Migration from version 0 to 1
-  // 0: (data) => {
-  //   // Add new required fields, transform data structure, etc.
-  //   return {
-  //     ...data,
-  //     newField: 'default value',
-  //   };
-  // },
+  // Version 1 to 2: add application settings
+  1: (data) => {
+    return {
+      ...data,
+      settings: { ...DEFAULT_SETTINGS },
+    };
+  },
 };
@@ -2,54 +2,78 @@ import * as chokidar from 'chokidar';
 import * as path from 'node:path';
 import { sendToRenderer } from '../window.js';
 import { queueOperation } from '../git/queue.js';
-import { runGitQuick } from '../git/runner.js';
-import { parseStatusPorcelainV2, detectRebaseState } from '../git/parser.js';
+import { readRepoStatus } from '../git/status.js';
+import { resolveGitDirs, type GitDirs } from '../git/git-dir.js';
 import { setRepoStatusCache } from '../cache/repo-state.js';
-import type { RepoStatus } from '../../shared/types.js';
+import { getSettings } from '../storage/index.js';
 
 // Active watchers keyed by repo ID
 const watchers = new Map<string, chokidar.FSWatcher>();
 
+// Repo paths of active watchers, so they can be restarted when settings change
+const watchedPaths = new Map<string, string>();
+
+// Periodic refresh of all watched repos
+let pollTimer: NodeJS.Timeout | null = null;
+
 // Debounce timers keyed by repo ID
 const debounceTimers = new Map<string, NodeJS.Timeout>();
 
 // Debounce delay in ms
 const DEBOUNCE_DELAY = 300;
 
+// Entries of the git dir to watch: state that belongs to each worktree
+const WORKTREE_GIT_PATHS = [
+  'HEAD',
+  'index',
+  'CHERRY_PICK_HEAD',
+  'REVERT_HEAD',
+  'MERGE_HEAD',
+  'rebase-merge',
+  'rebase-apply',
+  'sequencer',
+];
+
+// Entries of the common dir to watch: state shared by all worktrees
+const COMMON_GIT_PATHS = ['refs'];
+
 /**
  * Start watching a repository for changes
  */
-export function startWatching(repoId: string, repoPath: string): void {
+export async function startWatching(repoId: string, repoPath: string): Promise<void> {
   // Don't start if already watching
   if (watchers.has(repoId)) {
     return;
   }
 
-  const gitDir = path.join(repoPath, '.git');
+  const dirs = await resolveGitDirs(repoPath);
+  const { watchWorkingTree } = getSettings();
+
+  // Another call may have started it while the git dirs were resolved
+  if (watchers.has(repoId)) {
+    return;
+  }
+
+  // Watch the entire repo for working directory changes, plus specific git dir files.
+  // Without the working tree only the git dirs are watched, so commits, checkouts and
+  // staging still refresh right away and other changes wait for the next poll.
+  // Worktrees and submodules keep their git dirs outside the repo, so those are
+  // watched separately.
+  const roots = watchWorkingTree ? [repoPath] : [];
+  for (const dir of [dirs.gitDir, dirs.commonDir]) {
+    if (!roots.some((root) => isWithin(dir, root))) {
+      roots.push(dir);
+    }
+  }
 
-  // Watch the entire repo for working directory changes, plus specific .git files
-  const watcher = chokidar.watch(repoPath, {
+  const watcher = chokidar.watch(roots, {
     persistent: true,
     ignoreInitial: true,
     followSymlinks: false,
     // Ignore patterns for performance
     ignored: [
-      // Ignore .git internals except specific files we care about
-      (filePath: string) => {
-        // Always watch these .git files
-        const watchedGitFiles = [path.join(gitDir, 'HEAD'), path.join(gitDir, 'index')];
-        if (watchedGitFiles.includes(filePath)) return false;
-
-        // Watch refs directories
-        if (filePath.startsWith(path.join(gitDir, 'refs'))) return false;
-        if (filePath.startsWith(path.join(gitDir, 'rebase-merge'))) return false;
-        if (filePath.startsWith(path.join(gitDir, 'rebase-apply'))) return false;
-
-        // Ignore all other .git contents
-        if (filePath.startsWith(gitDir + path.sep) || filePath === gitDir) return true;
-
-        return false;
-      },
+      // Ignore git dir internals except specific files we care about
+      (filePath: string) => isIgnoredGitPath(filePath, dirs),
       // Ignore common large/noisy directories
       '**/node_modules/**',
       '**/.next/**',
@@ -79,6 +103,7 @@ export function startWatching(repoId: string, repoPath: string): void {
   });
 
   watchers.set(repoId, watcher);
+  watchedPaths.set(repoId, repoPath);
   console.log(`[githulu] Started watching: ${repoId}`);
 }
 
@@ -90,6 +115,7 @@ export function stopWatching(repoId: string): void {
   if (watcher) {
     watcher.close();
     watchers.delete(repoId);
+    watchedPaths.delete(repoId);
     console.log(`[githulu] Stopped watching: ${repoId}`);
   }
 
@@ -110,6 +136,42 @@ export function stopAllWatchers(): void {
   }
 }
 
+/**
+ * Restart all watchers, picking up a changed watchWorkingTree setting
+ */
+export function restartAllWatchers(): void {
+  for (const [repoId, repoPath] of [...watchedPaths]) {
+    stopWatching(repoId);
+    startWatching(repoId, repoPath).catch((error) => {
+      console.error(`[githulu] Failed to restart watcher for ${repoId}:`, error);
+    });
+  }
+}
+
+/**
+ * Refresh every watched repo on the refresh interval from settings, which
+ * catches changes the watcher doesn't see. Restarts polling if already running.
+ */
+export function startPolling(): void {
+  stopPolling();
+
+  pollTimer = setInterval(() => {
+    for (const [repoId, repoPath] of watchedPaths) {
+      refreshRepoStatus(repoId, repoPath, false);
+    }
+  }, getSettings().refreshInterval * 1000);
+}
+
+/**
+ * Stop the periodic refresh
+ */
+export function stopPolling(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
+
 /**
  * Check if a repository is being watched
  */
@@ -117,6 +179,37 @@ export function isWatching(repoId: string): boolean {
   return watchers.has(repoId);
 }
 
+/**
+ * Whether a path is the given directory or inside it
+ */
+function isWithin(filePath: string, dir: string): boolean {
+  return filePath === dir || filePath.startsWith(dir + path.sep);
+}
+
+/**
+ * Ignore everything in the git dirs except the state that affects status.
+ * A linked worktree's git dir is inside the common dir, so it's checked first.
+ */
+function isIgnoredGitPath(filePath: string, { gitDir, commonDir }: GitDirs): boolean {
+  let root: string;
+  let watched: string[];
+
+  if (isWithin(filePath, gitDir)) {
+    root = gitDir;
+    watched =
+      gitDir === commonDir ? [...WORKTREE_GIT_PATHS, ...COMMON_GIT_PATHS] : WORKTREE_GIT_PATHS;
+  } else if (isWithin(filePath, commonDir)) {
+    root = commonDir;
+    watched = COMMON_GIT_PATHS;
+  } else {
+    return false;
+  }
+
+  // The git dir itself must not be ignored, or nothing inside it is seen
+  const relative = path.relative(root, filePath);
+  return relative !== '' && !watched.includes(relative.split(path.sep)[0]);
+}
+
 /**
  * Debounced refresh - coalesces rapid changes into a single refresh
  */
@@ -137,44 +230,16 @@ function debouncedRefresh(repoId: string, repoPath: string): void {
 }
 
 /**
- * Refresh repository status and emit to renderer
+ * Refresh repository status and emit to renderer. Background refreshes can
+ * skip reporting failures, which would otherwise repeat on every poll.
  */
-async function refreshRepoStatus(repoId: string, repoPath: string): Promise<void> {
+export async function refreshRepoStatus(
+  repoId: string,
+  repoPath: string,
+  reportErrors = true
+): Promise<void> {
   try {
-    const status = await queueOperation(repoPath, 'high', async () => {
-      const statusResult = await runGitQuick(repoPath, ['status', '--porcelain=v2', '-b']);
-
-      if (!statusResult.success) {
-        throw new Error(`Failed to get status: ${statusResult.stderr}`);
-      }
-
-      const parsed = parseStatusPorcelainV2(statusResult.stdout);
-      const rebaseState = await detectRebaseState(repoPath);
-
-      if (rebaseState.inProgress) {
-        rebaseState.conflicts = parsed.conflicts.map((c) => c.path);
-      }
-
-      const status: RepoStatus = {
-        repoId,
-        path: repoPath,
-        branch: parsed.branch,
-        upstream: parsed.upstream,
-        ahead: parsed.ahead,
-        behind: parsed.behind,
-        isDirty:
-          parsed.staged.length > 0 || parsed.unstaged.length > 0 || parsed.untracked.length > 0,
-        rebase: rebaseState,
-        changes: {
-          staged: parsed.staged,
-          unstaged: parsed.unstaged,
-          untracked: parsed.untracked,
-        },
-        lastUpdatedAt: Date.now(),
-      };
-
-      return status;
-    });
+    const status = await queueOperation(repoPath, 'high', () => readRepoStatus(repoId, repoPath));
 
     // Cache and emit
     setRepoStatusCache(repoId, status);
@@ -189,6 +254,8 @@ async function refreshRepoStatus(repoId: string, repoPath: string): Promise<void
     }
   } catch (error) {
     console.error(`[githulu] Status refresh failed for ${repoId}:`, error);
+    if (!reportErrors) return;
+
     sendToRenderer('githulu:event:operationError', {
       repoId,
       opId: 'watcher_refresh',
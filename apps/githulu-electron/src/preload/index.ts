@@ -1,4 +1,22 @@
 import { contextBridge, ipcRenderer } from 'electron';
+import type {
+  RebaseTodoEntry,
+  HunkSelection,
+  PatchAction,
+  CommitOptions,
+  RevertOptions,
+  DeletedBranch,
+  MergeOptions,
+  ConflictSide,
+  StashPushOptions,
+  PullOptions,
+  AddWorktreeOptions,
+  CloneOptions,
+  InitOptions,
+  ScanFolderOptions,
+  LogFilter,
+  Settings,
+} from '../shared/types.js';
 
 // Type-safe event listener management
 type EventHandler = (payload: unknown) => void;
@@ -6,7 +24,13 @@ type EventHandler = (payload: unknown) => void;
 const api = {
   repos: {
     list: () => ipcRenderer.invoke('githulu:repos:list'),
-    add: (path: string) => ipcRenderer.invoke('githulu:repos:add', path),
+    add: (path: string, groupId?: string) => ipcRenderer.invoke('githulu:repos:add', path, groupId),
+    clone: (options: CloneOptions, groupId?: string) =>
+      ipcRenderer.invoke('githulu:repos:clone', options, groupId),
+    init: (path: string, options?: InitOptions, groupId?: string) =>
+      ipcRenderer.invoke('githulu:repos:init', path, options, groupId),
+    scanFolder: (path: string, options?: ScanFolderOptions) =>
+      ipcRenderer.invoke('githulu:repos:scanFolder', path, options),
     remove: (repoId: string) => ipcRenderer.invoke('githulu:repos:remove', repoId),
     createGroup: (name: string) => ipcRenderer.invoke('githulu:repos:createGroup', name),
     renameGroup: (groupId: string, name: string) =>
@@ -16,6 +40,9 @@ const api = {
       ipcRenderer.invoke('githulu:repos:moveRepo', repoId, toGroupId, index),
     reorderRepo: (groupId: string, fromIndex: number, toIndex: number) =>
       ipcRenderer.invoke('githulu:repos:reorderRepo', groupId, fromIndex, toIndex),
+    setAutoFetch: (repoId: string, enabled: boolean) =>
+      ipcRenderer.invoke('githulu:repos:setAutoFetch', repoId, enabled),
+    autoFetchStates: () => ipcRenderer.invoke('githulu:repos:autoFetchStates'),
   },
 
   git: {
@@ -23,6 +50,7 @@ const api = {
     refreshStatus: (repoId: string) => ipcRenderer.invoke('githulu:git:refreshStatus', repoId),
     fetch: (repoId: string, remote?: string) =>
       ipcRenderer.invoke('githulu:git:fetch', repoId, remote),
+    fetchAll: (repoId: string) => ipcRenderer.invoke('githulu:git:fetchAll', repoId),
     push: (repoId: string, branch: string) =>
       ipcRenderer.invoke('githulu:git:push', repoId, branch),
     pushWithOptions: (
@@ -30,17 +58,41 @@ const api = {
       branch: string,
       options?: { force?: boolean; forceWithLease?: boolean; remote?: string }
     ) => ipcRenderer.invoke('githulu:git:pushWithOptions', repoId, branch, options),
-    pull: (repoId: string, options?: { remote?: string; rebase?: boolean }) =>
+    pull: (repoId: string, options?: PullOptions) =>
       ipcRenderer.invoke('githulu:git:pull', repoId, options),
-    publish: (repoId: string, branch: string) =>
-      ipcRenderer.invoke('githulu:git:publish', repoId, branch),
+    publish: (repoId: string, branch: string, remote?: string) =>
+      ipcRenderer.invoke('githulu:git:publish', repoId, branch, remote),
+    remotes: (repoId: string) => ipcRenderer.invoke('githulu:git:remotes', repoId),
+    addRemote: (repoId: string, name: string, url: string) =>
+      ipcRenderer.invoke('githulu:git:addRemote', repoId, name, url),
+    renameRemote: (repoId: string, oldName: string, newName: string) =>
+      ipcRenderer.invoke('githulu:git:renameRemote', repoId, oldName, newName),
+    removeRemote: (repoId: string, name: string) =>
+      ipcRenderer.invoke('githulu:git:removeRemote', repoId, name),
+    setRemoteUrl: (repoId: string, name: string, url: string, push?: boolean) =>
+      ipcRenderer.invoke('githulu:git:setRemoteUrl', repoId, name, url, push),
+    worktrees: (repoId: string) => ipcRenderer.invoke('githulu:git:worktrees', repoId),
+    addWorktree: (repoId: string, options: AddWorktreeOptions) =>
+      ipcRenderer.invoke('githulu:git:addWorktree', repoId, options),
+    removeWorktree: (repoId: string, worktreePath: string, force?: boolean) =>
+      ipcRenderer.invoke('githulu:git:removeWorktree', repoId, worktreePath, force),
+    pruneWorktrees: (repoId: string) => ipcRenderer.invoke('githulu:git:pruneWorktrees', repoId),
+    submodules: (repoId: string) => ipcRenderer.invoke('githulu:git:submodules', repoId),
+    initSubmodules: (repoId: string, paths?: string[]) =>
+      ipcRenderer.invoke('githulu:git:initSubmodules', repoId, paths),
+    updateSubmodules: (repoId: string, paths?: string[]) =>
+      ipcRenderer.invoke('githulu:git:updateSubmodules', repoId, paths),
+    syncSubmodules: (repoId: string, paths?: string[]) =>
+      ipcRenderer.invoke('githulu:git:syncSubmodules', repoId, paths),
     branches: (repoId: string) => ipcRenderer.invoke('githulu:git:branches', repoId),
-    log: (repoId: string, count?: number, skip?: number) =>
-      ipcRenderer.invoke('githulu:git:log', repoId, count, skip),
+    log: (repoId: string, count?: number, skip?: number, ref?: string, filter?: LogFilter) =>
+      ipcRenderer.invoke('githulu:git:log', repoId, count, skip, ref, filter),
     showCommit: (repoId: string, hash: string) =>
       ipcRenderer.invoke('githulu:git:showCommit', repoId, hash),
     diffCommitFile: (repoId: string, hash: string, filePath: string) =>
       ipcRenderer.invoke('githulu:git:diffCommitFile', repoId, hash, filePath),
+    blame: (repoId: string, filePath: string, rev?: string) =>
+      ipcRenderer.invoke('githulu:git:blame', repoId, filePath, rev),
     createBranch: (repoId: string, name: string, from: string) =>
       ipcRenderer.invoke('githulu:git:createBranch', repoId, name, from),
     renameBranch: (repoId: string, oldName: string, newName: string) =>
@@ -49,28 +101,89 @@ const api = {
       ipcRenderer.invoke('githulu:git:trackBranch', repoId, remoteBranch, localName),
     switchBranch: (repoId: string, name: string) =>
       ipcRenderer.invoke('githulu:git:switchBranch', repoId, name),
+    deleteBranch: (repoId: string, name: string, force?: boolean) =>
+      ipcRenderer.invoke('githulu:git:deleteBranch', repoId, name, force),
+    deleteRemoteBranch: (repoId: string, remote: string, name: string) =>
+      ipcRenderer.invoke('githulu:git:deleteRemoteBranch', repoId, remote, name),
+    mergedBranches: (repoId: string) => ipcRenderer.invoke('githulu:git:mergedBranches', repoId),
+    deleteMergedBranches: (repoId: string, names: string[]) =>
+      ipcRenderer.invoke('githulu:git:deleteMergedBranches', repoId, names),
+    restoreBranch: (repoId: string, branch: DeletedBranch) =>
+      ipcRenderer.invoke('githulu:git:restoreBranch', repoId, branch),
     diff: (repoId: string, filePath: string, staged: boolean) =>
       ipcRenderer.invoke('githulu:git:diff', repoId, filePath, staged),
+    difftool: (repoId: string, filePath: string, staged: boolean) =>
+      ipcRenderer.invoke('githulu:git:difftool', repoId, filePath, staged),
     stageFile: (repoId: string, filePath: string) =>
       ipcRenderer.invoke('githulu:git:stageFile', repoId, filePath),
     unstageFile: (repoId: string, filePath: string) =>
       ipcRenderer.invoke('githulu:git:unstageFile', repoId, filePath),
+    applyHunks: (
+      repoId: string,
+      filePath: string,
+      action: PatchAction,
+      selections: HunkSelection[]
+    ) => ipcRenderer.invoke('githulu:git:applyHunks', repoId, filePath, action, selections),
+    discardFile: (repoId: string, filePath: string) =>
+      ipcRenderer.invoke('githulu:git:discardFile', repoId, filePath),
+    discardAll: (repoId: string) => ipcRenderer.invoke('githulu:git:discardAll', repoId),
+    removeUntracked: (repoId: string) => ipcRenderer.invoke('githulu:git:removeUntracked', repoId),
+    discardedList: (repoId: string) => ipcRenderer.invoke('githulu:git:discardedList', repoId),
+    restoreDiscarded: (repoId: string, id: string) =>
+      ipcRenderer.invoke('githulu:git:restoreDiscarded', repoId, id),
     stageAll: (repoId: string) => ipcRenderer.invoke('githulu:git:stageAll', repoId),
-    commit: (repoId: string, message: string) =>
-      ipcRenderer.invoke('githulu:git:commit', repoId, message),
+    commit: (repoId: string, options: CommitOptions) =>
+      ipcRenderer.invoke('githulu:git:commit', repoId, options),
     rebaseStart: (repoId: string, onto: string) =>
       ipcRenderer.invoke('githulu:git:rebaseStart', repoId, onto),
+    rebaseTodo: (repoId: string, onto: string) =>
+      ipcRenderer.invoke('githulu:git:rebaseTodo', repoId, onto),
+    rebaseInteractive: (repoId: string, onto: string, entries: RebaseTodoEntry[]) =>
+      ipcRenderer.invoke('githulu:git:rebaseInteractive', repoId, onto, entries),
     rebaseContinue: (repoId: string) => ipcRenderer.invoke('githulu:git:rebaseContinue', repoId),
     rebaseAbort: (repoId: string) => ipcRenderer.invoke('githulu:git:rebaseAbort', repoId),
+    cherryPick: (repoId: string, hashes: string[]) =>
+      ipcRenderer.invoke('githulu:git:cherryPick', repoId, hashes),
+    revert: (repoId: string, hashes: string[], options?: RevertOptions) =>
+      ipcRenderer.invoke('githulu:git:revert', repoId, hashes, options),
+    merge: (repoId: string, branch: string, options?: MergeOptions) =>
+      ipcRenderer.invoke('githulu:git:merge', repoId, branch, options),
+    sequencerContinue: (repoId: string) =>
+      ipcRenderer.invoke('githulu:git:sequencerContinue', repoId),
+    sequencerSkip: (repoId: string) => ipcRenderer.invoke('githulu:git:sequencerSkip', repoId),
+    sequencerAbort: (repoId: string) => ipcRenderer.invoke('githulu:git:sequencerAbort', repoId),
+    conflictFile: (repoId: string, filePath: string) =>
+      ipcRenderer.invoke('githulu:git:conflictFile', repoId, filePath),
+    resolveConflict: (repoId: string, filePath: string, content: string) =>
+      ipcRenderer.invoke('githulu:git:resolveConflict', repoId, filePath, content),
+    resolveConflictSide: (repoId: string, filePath: string, side: ConflictSide) =>
+      ipcRenderer.invoke('githulu:git:resolveConflictSide', repoId, filePath, side),
+    mergetool: (repoId: string, filePath: string) =>
+      ipcRenderer.invoke('githulu:git:mergetool', repoId, filePath),
     stashList: (repoId: string) => ipcRenderer.invoke('githulu:git:stashList', repoId),
-    stashPush: (repoId: string, message?: string, includeUntracked?: boolean) =>
-      ipcRenderer.invoke('githulu:git:stashPush', repoId, message, includeUntracked),
+    showStash: (repoId: string, index: number) =>
+      ipcRenderer.invoke('githulu:git:showStash', repoId, index),
+    stashPush: (
+      repoId: string,
+      message?: string,
+      includeUntracked?: boolean,
+      options?: StashPushOptions
+    ) => ipcRenderer.invoke('githulu:git:stashPush', repoId, message, includeUntracked, options),
     stashPop: (repoId: string, index?: number) =>
       ipcRenderer.invoke('githulu:git:stashPop', repoId, index),
     stashApply: (repoId: string, index: number) =>
       ipcRenderer.invoke('githulu:git:stashApply', repoId, index),
     stashDrop: (repoId: string, index: number) =>
       ipcRenderer.invoke('githulu:git:stashDrop', repoId, index),
+    stashBranch: (repoId: string, index: number, name: string) =>
+      ipcRenderer.invoke('githulu:git:stashBranch', repoId, index, name),
+    tags: (repoId: string) => ipcRenderer.invoke('githulu:git:tags', repoId),
+    createTag: (repoId: string, name: string, target: string, message?: string) =>
+      ipcRenderer.invoke('githulu:git:createTag', repoId, name, target, message),
+    deleteTag: (repoId: string, name: string, remote?: string) =>
+      ipcRenderer.invoke('githulu:git:deleteTag', repoId, name, remote),
+    pushTags: (repoId: string, remote?: string, name?: string) =>
+      ipcRenderer.invoke('githulu:git:pushTags', repoId, remote, name),
   },
 
   events: {
@@ -91,7 +204,8 @@ const api = {
 
   utils: {
     selectFolder: () => ipcRenderer.invoke('githulu:utils:selectFolder'),
-    openInEditor: (filePath: string) => ipcRenderer.invoke('githulu:utils:openInEditor', filePath),
+    openInEditor: (filePath: string, line?: number) =>
+      ipcRenderer.invoke('githulu:utils:openInEditor', filePath, line),
   },
 
   ui: {
@@ -99,6 +213,15 @@ const api = {
       ipcRenderer.invoke('githulu:ui:savePreferences', prefs),
     loadPreferences: () => ipcRenderer.invoke('githulu:ui:loadPreferences'),
   },
+
+  settings: {
+    get: () => ipcRenderer.invoke('githulu:settings:get'),
+    set: (updates: Partial<Settings>) => ipcRenderer.invoke('githulu:settings:set', updates),
+  },
+
+  ops: {
+    cancel: (opId: string) => ipcRenderer.invoke('githulu:ops:cancel', opId),
+  },
 };
 
 // Expose the API to the renderer process
@@ -7,6 +7,7 @@ export interface StorageSchema {
   groups: Group[];
   repos: Repo[];
   ui: UIState;
+  settings: Settings;
 }
 
 export interface Group {
@@ -19,6 +20,7 @@ export interface Repo {
   id: string; // "repo_" prefix + nanoid
   path: string; // Absolute path to repo root
   displayName: string;
+  autoFetch?: boolean; // Background fetch of all remotes; on unless set to false
 }
 
 export interface UIState {
@@ -33,6 +35,17 @@ export interface UIPreferences {
   rightPaneWidth?: number;
 }
 
+export type EditorId = 'cursor' | 'vscode' | 'sublime' | 'custom';
+
+export interface Settings {
+  editorCommand: EditorId;
+  customEditorCommand: string; // Used when editorCommand is 'custom'
+  refreshInterval: number; // Seconds between status refreshes of watched repos
+  watchWorkingTree: boolean; // When off, only changes inside .git trigger a refresh
+  showHiddenFiles: boolean;
+  autoFetchInterval: number; // Minutes between background fetches
+}
+
 // ============================================
 // Git Status Types
 // ============================================
@@ -46,6 +59,7 @@ export interface RepoStatus {
   behind: number;
   isDirty: boolean;
   rebase: RebaseState;
+  operation: SequencerOperation | null; // Operation in progress, same as rebase.operation
   changes: {
     staged: FileChange[];
     unstaged: FileChange[];
@@ -54,11 +68,34 @@ export interface RepoStatus {
   lastUpdatedAt: number; // epoch ms
 }
 
+// Operations that can stop on conflicts and be continued or aborted (all but merge can skip)
+export type SequencerOperation = 'rebase' | 'cherry-pick' | 'revert' | 'merge';
+
+/**
+ * State of an in-progress rebase or other sequencer operation (see `operation`)
+ */
 export interface RebaseState {
   inProgress: boolean;
+  operation?: SequencerOperation; // Set while inProgress
+  interactive?: boolean;
   step?: number;
   total?: number;
-  conflicts: string[];
+  conflicts: string[]; // Unmerged paths, also listed with no operation (e.g. after a squash)
+}
+
+export type RebaseAction = 'pick' | 'reword' | 'edit' | 'squash' | 'fixup' | 'drop';
+
+export interface RebaseTodoEntry {
+  hash: string;
+  shortHash: string;
+  subject: string;
+  action: RebaseAction;
+  message?: string; // New commit message for reword
+}
+
+export interface RebaseTodoResult {
+  onto: string;
+  entries: RebaseTodoEntry[]; // Oldest first, in execution order
 }
 
 export interface FileChange {
@@ -66,6 +103,32 @@ export interface FileChange {
   status: string; // porcelain status code
   kind: 'staged' | 'unstaged' | 'untracked' | 'conflict';
   oldPath?: string; // for renames
+  submodule?: SubmoduleChange; // Set when the path is a submodule
+}
+
+// What changed in a submodule, from the <sub> field of porcelain v2 status
+export interface SubmoduleChange {
+  commitChanged: boolean; // Checked out commit differs from the recorded one
+  modified: boolean; // Tracked files inside it have changes
+  untracked: boolean; // It has untracked files
+}
+
+// ============================================
+// Conflict Types
+// ============================================
+
+export type ConflictSide = 'ours' | 'theirs';
+
+// Part of a conflicted file: text both sides agree on, or a conflict region
+export type ConflictSegment =
+  | { type: 'common'; text: string }
+  | { type: 'conflict'; ours: string; base: string; theirs: string };
+
+export interface ConflictFileResult {
+  path: string;
+  segments: ConflictSegment[] | null; // null when the file can't be resolved region by region
+  binary: boolean;
+  deletedBy: ConflictSide | null; // Side that deleted the file (modify/delete conflicts)
 }
 
 // ============================================
@@ -76,8 +139,28 @@ export interface DiffResult {
   filePath: string;
   staged: boolean;
   diffText: string;
+  submodule?: SubmoduleDiff; // Set when the path is a submodule
+}
+
+// Commit range of a submodule change, with the commits in between
+export interface SubmoduleDiff {
+  oldCommit: string | null; // Null when the submodule was added
+  newCommit: string | null; // Null when the submodule was removed
+  dirty: boolean; // Its working tree has changes of its own
+  rewound: boolean; // New commit is behind the old one; commits are the ones dropped
+  commits: CommitInfo[] | null; // Null when its history isn't available (not checked out or fetched)
 }
 
+// Part of a diff to stage, unstage or discard. Indexes refer to the hunks and lines of the
+// diff as currently shown; the header guards against applying to a diff that has changed.
+export interface HunkSelection {
+  hunkIndex: number;
+  header: string;
+  lineIndexes?: number[]; // Omit to select the whole hunk
+}
+
+export type PatchAction = 'stage' | 'unstage' | 'discard';
+
 export interface DiffHunk {
   oldStart: number;
   oldCount: number;
@@ -111,6 +194,133 @@ export interface BranchInfo {
   lastCommit?: string;
 }
 
+// Branch deleted during this session, with its tip so it can be recreated
+export interface DeletedBranch {
+  name: string; // Branch name (without the remote prefix for remote branches)
+  remote?: string; // Set when the branch was deleted from a remote
+  hash: string; // Tip commit at the time of deletion
+}
+
+export interface DeleteBranchResult extends OpResult {
+  deleted: DeletedBranch[];
+  notMerged: string[]; // Branches left alone because they aren't fully merged
+}
+
+export interface MergedBranchesResult {
+  base: string | null; // Default branch the others were checked against
+  branches: string[];
+}
+
+// ============================================
+// Remote Types
+// ============================================
+
+export interface RemoteInfo {
+  name: string;
+  fetchUrl: string;
+  pushUrl: string; // Same as fetchUrl unless a separate push URL is set
+}
+
+export interface RemotesResult {
+  remotes: RemoteInfo[];
+}
+
+export interface PullOptions {
+  remote?: string; // Defaults to the current branch's remote
+  branch?: string; // Branch on the remote; defaults to the upstream
+  rebase?: boolean;
+}
+
+// ============================================
+// Worktree Types
+// ============================================
+
+export interface WorktreeInfo {
+  path: string;
+  head: string | null; // Commit checked out
+  branch: string | null; // Null when HEAD is detached
+  isMain: boolean; // The main working tree, which can't be removed
+  isCurrent: boolean; // The worktree the list was loaded from
+  isDirty: boolean;
+  locked: boolean;
+  prunable: boolean; // Its directory is gone; prune removes what's left
+}
+
+export interface WorktreesResult {
+  worktrees: WorktreeInfo[];
+}
+
+export interface AddWorktreeOptions {
+  path: string; // Absolute path of the new worktree
+  branch: string; // Branch to check out, or to create with createBranch
+  createBranch?: boolean;
+  startPoint?: string; // Where a new branch starts; defaults to HEAD
+}
+
+// ============================================
+// Submodule Types
+// ============================================
+
+export interface SubmoduleInfo {
+  path: string;
+  commit: string; // Recorded commit, or the checked out one when outOfDate
+  state: 'uninitialized' | 'upToDate' | 'outOfDate' | 'conflict';
+  describe: string | null; // Nearest ref of the commit, e.g. "heads/main"
+}
+
+export interface SubmodulesResult {
+  submodules: SubmoduleInfo[];
+}
+
+export interface AutoFetchState {
+  repoId: string;
+  lastFetchedAt: number | null;
+  nextFetchAt: number | null; // null while auto-fetch is off for the repo
+  failures: number; // Consecutive failures; each one doubles the delay
+  lastError: string | null;
+}
+
+// ============================================
+// Clone Types
+// ============================================
+
+export interface CloneOptions {
+  url: string; // Remote URL, local path or file:// URL
+  dest: string; // Absolute path of the new folder
+  branch?: string;
+  depth?: number; // Shallow clone of this many commits
+  recurseSubmodules?: boolean;
+}
+
+export interface CloneResult extends OpResult {
+  repo: Repo | null; // The bookmarked repo, once the clone succeeded
+}
+
+// ============================================
+// Init & Import Types
+// ============================================
+
+export type GitignoreTemplate = 'node' | 'python' | 'go' | 'rust' | 'java' | 'macos';
+
+export interface InitOptions {
+  initialCommit?: boolean; // Commit the generated .gitignore (or nothing) as "Initial commit"
+  gitignoreTemplate?: GitignoreTemplate; // Not written over an existing .gitignore
+}
+
+export interface InitResult extends OpResult {
+  repo: Repo | null; // The bookmarked repo, once git init succeeded
+}
+
+export interface ScanFolderOptions {
+  groupPerParent?: boolean; // Group repos by the folder they're in, creating groups as needed
+  groupId?: string; // Otherwise the group for all of them (the first group by default)
+}
+
+export interface ScanFolderResult {
+  added: Repo[];
+  skipped: string[]; // Repos that were already bookmarked or couldn't be added
+}
+
 // ============================================
 // Commit Log Types
 // ============================================
@@ -118,6 +328,7 @@ export interface BranchInfo {
 export interface CommitInfo {
   hash: string;
   shortHash: string;
+  parents: string[]; // Parent hashes (more than one for merges)
   subject: string;
   body: string;
   author: string;
@@ -133,6 +344,39 @@ export interface LogResult {
   hasMore: boolean;
 }
 
+// Narrows the log to commits matching every field that's set
+export interface LogFilter {
+  author?: string; // Name or email, as a regex
+  since?: string; // YYYY-MM-DD, inclusive, by commit date
+  until?: string; // YYYY-MM-DD, inclusive, by commit date
+  message?: string; // Commit message, as a regex (--grep)
+  content?: string; // Text added or removed (-S), or a regex with contentRegex (-G)
+  contentRegex?: boolean;
+  path?: string; // Only commits touching this file or folder
+}
+
+// default lets git fast-forward when it can and create a merge commit otherwise
+export type MergeMode = 'default' | 'ff-only' | 'no-ff' | 'squash';
+
+export interface MergeOptions {
+  mode?: MergeMode;
+  message?: string; // Merge commit message (git's default message when omitted)
+}
+
+export interface CommitOptions {
+  message: string;
+  amend?: boolean; // Replace the last commit instead of creating a new one
+  signOff?: boolean; // Add a Signed-off-by trailer
+  noVerify?: boolean; // Skip pre-commit and commit-msg hooks
+  author?: string; // Override the author, "Name <email>"
+  allowEmpty?: boolean; // Allow a commit with no changes
+}
+
+export interface RevertOptions {
+  mainline?: number; // Parent number (1-based) to revert merge commits against
+  noCommit?: boolean; // Leave the reverted changes staged instead of committing
+}
+
 export interface CommitFileChange {
   path: string;
   status: string; // A (added), D (deleted), M (modified), R (renamed)
@@ -142,6 +386,7 @@ export interface CommitFileChange {
 export interface CommitDetailResult {
   hash: string;
   shortHash: string;
+  parents: string[];
   subject: string;
   body: string;
   author: string;
@@ -152,6 +397,32 @@ export interface CommitDetailResult {
   files: CommitFileChange[];
 }
 
+// ============================================
+// Blame Types
+// ============================================
+
+export interface BlameLine {
+  lineNumber: number; // Line number in the blamed revision of the file
+  originalLineNumber: number; // Line number in the commit that introduced it
+  content: string;
+  commit: string; // Full hash (all zeros for uncommitted lines)
+  shortHash: string;
+  author: string;
+  authorEmail: string;
+  date: string; // ISO date string
+  relativeDate: string;
+  summary: string;
+  originalPath: string; // Path of the file in that commit (differs after renames)
+  previous?: { commit: string; path: string }; // Parent revision to re-blame at
+  isUncommitted: boolean;
+}
+
+export interface BlameResult {
+  filePath: string;
+  rev: string | null; // null = working tree
+  lines: BlameLine[];
+}
+
 // ============================================
 // Stash Types
 // ============================================
@@ -163,12 +434,69 @@ export interface StashInfo {
   hash: string; // SHA of the stash commit
   date: string; // ISO date string
   relativeDate: string; // "2 hours ago", etc.
+  baseHash: string; // Commit the stash was created on
 }
 
 export interface StashListResult {
   stashes: StashInfo[];
 }
 
+export interface StashFileChange extends CommitFileChange {
+  untracked: boolean; // Stashed with --include-untracked
+  diffText: string;
+}
+
+export interface StashDetailResult {
+  index: number;
+  hash: string;
+  baseHash: string;
+  commitsSinceBase: number | null; // Commits on HEAD that the base lacks (null without a HEAD)
+  files: StashFileChange[];
+}
+
+export interface StashPushOptions {
+  paths?: string[]; // Only stash these paths
+  keepIndex?: boolean; // Leave staged changes in place (--keep-index)
+}
+
+// ============================================
+// Tag Types
+// ============================================
+
+export interface TagInfo {
+  name: string;
+  isAnnotated: boolean;
+  targetHash: string; // Commit the tag points at (peeled for annotated tags)
+  targetShortHash: string;
+  targetSubject: string;
+  tagger?: string; // Annotated tags only
+  taggerEmail?: string;
+  message?: string; // Annotated tags only
+  date: string; // Tag date for annotated tags, commit date for lightweight tags
+  relativeDate: string;
+}
+
+export interface TagListResult {
+  tags: TagInfo[];
+}
+
+// ============================================
+// Discard Types
+// ============================================
+
+export interface DiscardSnapshot {
+  id: string; // Snapshot ref name (refs/githulu/discarded/<timestamp>-<suffix>)
+  hash: string;
+  trackedPaths: string[]; // Staged/unstaged changes that were reverted to HEAD
+  untrackedPaths: string[]; // Untracked files that were removed
+  date: string;
+  relativeDate: string;
+}
+
+export interface DiscardSnapshotListResult {
+  snapshots: DiscardSnapshot[];
+}
+
 // ============================================
 // Operation Types
 // ============================================
@@ -178,6 +506,8 @@ export interface OpResult {
   success: boolean;
   stdout?: string;
   stderr?: string;
+  paused?: boolean; // Stopped partway (a conflict or an "edit" stop) to be continued or aborted
+  cancelled?: boolean; // Stopped by the user from the progress drawer
 }
 
 export interface GitResult {
@@ -196,10 +526,24 @@ export interface RepoStatusUpdatedEvent {
   status: RepoStatus;
 }
 
+/**
+ * A phase of git's progress output, e.g. "Receiving objects: 45% (450/1000), 1.20 MiB | 2.40 MiB/s"
+ */
+export interface GitProgress {
+  phase: string; // e.g. "Receiving objects"
+  percent: number | null; // null for phases that only count, e.g. "Enumerating objects: 5"
+  current: number;
+  total: number | null;
+  transferred: string | null; // e.g. "1.20 MiB"
+  throughput: string | null; // e.g. "2.40 MiB/s"
+  done: boolean;
+}
+
 export interface OperationProgressEvent {
-  repoId: string;
+  repoId: string; // The destination folder while cloning, before there's a repo
   opId: string;
   line: string;
+  progress: GitProgress | null; // null for output that isn't a progress line
 }
 
 export interface OperationErrorEvent {
@@ -214,6 +558,11 @@ export interface RebaseStateChangedEvent {
   state: RebaseState;
 }
 
+export interface AutoFetchUpdatedEvent {
+  repoId: string;
+  state: AutoFetchState;
+}
+
 // ============================================
 // IPC Channel Types
 // ============================================
@@ -221,7 +570,17 @@ export interface RebaseStateChangedEvent {
 export type IPCChannels = {
   // Repos
   'githulu:repos:list': () => Promise<{ groups: Group[]; repos: Repo[]; ui: UIState }>;
-  'githulu:repos:add': (path: string) => Promise<{ repo: Repo }>;
+  'githulu:repos:add': (path: string, groupId?: string) => Promise<{ repo: Repo }>;
+  'githulu:repos:clone': (options: CloneOptions, groupId?: string) => Promise<CloneResult>;
+  'githulu:repos:init': (
+    path: string,
+    options?: InitOptions,
+    groupId?: string
+  ) => Promise<InitResult>;
+  'githulu:repos:scanFolder': (
+    path: string,
+    options?: ScanFolderOptions
+  ) => Promise<ScanFolderResult>;
   'githulu:repos:remove': (repoId: string) => Promise<void>;
   'githulu:repos:createGroup': (name: string) => Promise<{ group: Group }>;
   'githulu:repos:renameGroup': (groupId: string, name: string) => Promise<void>;
@@ -232,21 +591,57 @@ export type IPCChannels = {
     fromIndex: number,
     toIndex: number
   ) => Promise<void>;
+  'githulu:repos:setAutoFetch': (repoId: string, enabled: boolean) => Promise<void>;
+  'githulu:repos:autoFetchStates': () => Promise<AutoFetchState[]>;
 
   // Git
   'githulu:git:status': (repoId: string) => Promise<RepoStatus>;
   'githulu:git:refreshStatus': (repoId: string) => Promise<RepoStatus>;
   'githulu:git:fetch': (repoId: string, remote?: string) => Promise<OpResult>;
+  'githulu:git:fetchAll': (repoId: string) => Promise<OpResult>;
   'githulu:git:push': (repoId: string, branch: string) => Promise<OpResult>;
-  'githulu:git:publish': (repoId: string, branch: string) => Promise<OpResult>;
+  'githulu:git:publish': (repoId: string, branch: string, remote?: string) => Promise<OpResult>;
+  'githulu:git:remotes': (repoId: string) => Promise<RemotesResult>;
+  'githulu:git:addRemote': (repoId: string, name: string, url: string) => Promise<OpResult>;
+  'githulu:git:renameRemote': (
+    repoId: string,
+    oldName: string,
+    newName: string
+  ) => Promise<OpResult>;
+  'githulu:git:removeRemote': (repoId: string, name: string) => Promise<OpResult>;
+  'githulu:git:setRemoteUrl': (
+    repoId: string,
+    name: string,
+    url: string,
+    push?: boolean
+  ) => Promise<OpResult>;
+  'githulu:git:worktrees': (repoId: string) => Promise<WorktreesResult>;
+  'githulu:git:addWorktree': (repoId: string, options: AddWorktreeOptions) => Promise<OpResult>;
+  'githulu:git:removeWorktree': (
+    repoId: string,
+    worktreePath: string,
+    force?: boolean
+  ) => Promise<OpResult>;
+  'githulu:git:pruneWorktrees': (repoId: string) => Promise<OpResult>;
+  'githulu:git:submodules': (repoId: string) => Promise<SubmodulesResult>;
+  'githulu:git:initSubmodules': (repoId: string, paths?: string[]) => Promise<OpResult>;
+  'githulu:git:updateSubmodules': (repoId: string, paths?: string[]) => Promise<OpResult>;
+  'githulu:git:syncSubmodules': (repoId: string, paths?: string[]) => Promise<OpResult>;
   'githulu:git:branches': (repoId: string) => Promise<BranchesResult>;
-  'githulu:git:log': (repoId: string, count?: number, skip?: number) => Promise<LogResult>;
+  'githulu:git:log': (
+    repoId: string,
+    count?: number,
+    skip?: number,
+    ref?: string,
+    filter?: LogFilter
+  ) => Promise<LogResult>;
   'githulu:git:showCommit': (repoId: string, hash: string) => Promise<CommitDetailResult>;
   'githulu:git:diffCommitFile': (
     repoId: string,
     hash: string,
     filePath: string
   ) => Promise<DiffResult>;
+  'githulu:git:blame': (repoId: string, filePath: string, rev?: string) => Promise<BlameResult>;
   'githulu:git:createBranch': (repoId: string, name: string, from: string) => Promise<OpResult>;
   'githulu:git:trackBranch': (
     repoId: string,
@@ -254,36 +649,118 @@ export type IPCChannels = {
     localName?: string
   ) => Promise<OpResult>;
   'githulu:git:switchBranch': (repoId: string, name: string) => Promise<OpResult>;
+  'githulu:git:deleteBranch': (
+    repoId: string,
+    name: string,
+    force?: boolean
+  ) => Promise<DeleteBranchResult>;
+  'githulu:git:deleteRemoteBranch': (
+    repoId: string,
+    remote: string,
+    name: string
+  ) => Promise<DeleteBranchResult>;
+  'githulu:git:mergedBranches': (repoId: string) => Promise<MergedBranchesResult>;
+  'githulu:git:deleteMergedBranches': (
+    repoId: string,
+    names: string[]
+  ) => Promise<DeleteBranchResult>;
+  'githulu:git:restoreBranch': (repoId: string, branch: DeletedBranch) => Promise<OpResult>;
   'githulu:git:diff': (repoId: string, filePath: string, staged: boolean) => Promise<DiffResult>;
+  'githulu:git:difftool': (repoId: string, filePath: string, staged: boolean) => Promise<OpResult>;
   'githulu:git:stageFile': (repoId: string, filePath: string) => Promise<OpResult>;
   'githulu:git:unstageFile': (repoId: string, filePath: string) => Promise<OpResult>;
+  'githulu:git:applyHunks': (
+    repoId: string,
+    filePath: string,
+    action: PatchAction,
+    selections: HunkSelection[]
+  ) => Promise<OpResult>;
+  'githulu:git:discardFile': (repoId: string, filePath: string) => Promise<OpResult>;
+  'githulu:git:discardAll': (repoId: string) => Promise<OpResult>;
+  'githulu:git:removeUntracked': (repoId: string) => Promise<OpResult>;
+  'githulu:git:discardedList': (repoId: string) => Promise<DiscardSnapshotListResult>;
+  'githulu:git:restoreDiscarded': (repoId: string, id: string) => Promise<OpResult>;
   'githulu:git:stageAll': (repoId: string) => Promise<OpResult>;
-  'githulu:git:commit': (repoId: string, message: string) => Promise<OpResult>;
+  'githulu:git:commit': (repoId: string, options: CommitOptions) => Promise<OpResult>;
   'githulu:git:rebaseStart': (repoId: string, onto: string) => Promise<OpResult>;
+  'githulu:git:rebaseTodo': (repoId: string, onto: string) => Promise<RebaseTodoResult>;
+  'githulu:git:rebaseInteractive': (
+    repoId: string,
+    onto: string,
+    entries: RebaseTodoEntry[]
+  ) => Promise<OpResult>;
   'githulu:git:rebaseContinue': (repoId: string) => Promise<OpResult>;
   'githulu:git:rebaseAbort': (repoId: string) => Promise<OpResult>;
+  'githulu:git:cherryPick': (repoId: string, hashes: string[]) => Promise<OpResult>;
+  'githulu:git:revert': (
+    repoId: string,
+    hashes: string[],
+    options?: RevertOptions
+  ) => Promise<OpResult>;
+  'githulu:git:merge': (
+    repoId: string,
+    branch: string,
+    options?: MergeOptions
+  ) => Promise<OpResult>;
+  'githulu:git:sequencerContinue': (repoId: string) => Promise<OpResult>;
+  'githulu:git:sequencerSkip': (repoId: string) => Promise<OpResult>;
+  'githulu:git:sequencerAbort': (repoId: string) => Promise<OpResult>;
+  'githulu:git:conflictFile': (repoId: string, filePath: string) => Promise<ConflictFileResult>;
+  'githulu:git:resolveConflict': (
+    repoId: string,
+    filePath: string,
+    content: string
+  ) => Promise<OpResult>;
+  'githulu:git:resolveConflictSide': (
+    repoId: string,
+    filePath: string,
+    side: ConflictSide
+  ) => Promise<OpResult>;
+  'githulu:git:mergetool': (repoId: string, filePath: string) => Promise<OpResult>;
   'githulu:git:stashList': (repoId: string) => Promise<StashListResult>;
+  'githulu:git:showStash': (repoId: string, index: number) => Promise<StashDetailResult>;
   'githulu:git:stashPush': (
     repoId: string,
     message?: string,
-    includeUntracked?: boolean
+    includeUntracked?: boolean,
+    options?: StashPushOptions
   ) => Promise<OpResult>;
   'githulu:git:stashPop': (repoId: string, index?: number) => Promise<OpResult>;
   'githulu:git:stashApply': (repoId: string, index: number) => Promise<OpResult>;
   'githulu:git:stashDrop': (repoId: string, index: number) => Promise<OpResult>;
+  'githulu:git:stashBranch': (repoId: string, index: number, name: string) => Promise<OpResult>;
+  'githulu:git:tags': (repoId: string) => Promise<TagListResult>;
+  'githulu:git:createTag': (
+    repoId: string,
+    name: string,
+    target: string,
+    message?: string
+  ) => Promise<OpResult>;
+  'githulu:git:deleteTag': (repoId: string, name: string, remote?: string) => Promise<OpResult>;
+  'githulu:git:pushTags': (repoId: string, remote?: string, name?: string) => Promise<OpResult>;
 
   // Utils
   'githulu:utils:selectFolder': () => Promise<string | null>;
-  'githulu:utils:openInEditor': (filePath: string) => Promise<void>;
+  'githulu:utils:openInEditor': (filePath: string, line?: number) => Promise<void>;
 
   // UI Preferences
   'githulu:ui:savePreferences': (prefs: UIPreferences) => Promise<void>;
   'githulu:ui:loadPreferences': () => Promise<UIPreferences | null>;
+
+  // Settings
+  'githulu:settings:get': () => Promise<Settings>;
+  'githulu:settings:set': (updates: Partial<Settings>) => Promise<Settings>;
+
+  // Operations
+  'githulu:ops:cancel': (opId: string) => Promise<boolean>;
 };
 
 // Event channel types
 export type EventChannels =
   | 'githulu:event:repoStatusUpdated'
+  | 'githulu:event:operationStarted'
+  | 'githulu:event:operationUncancellable'
   | 'githulu:event:operationProgress'
   | 'githulu:event:operationError'
-  | 'githulu:event:rebaseStateChanged';
+  | 'githulu:event:rebaseStateChanged'
+  | 'githulu:event:autoFetchUpdated';
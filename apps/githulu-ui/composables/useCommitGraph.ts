@@ -0,0 +1,168 @@
+import type { CommitInfo } from '~/types/githulu';
+
+// Lane colors, cycled as new lanes are opened
+export const GRAPH_COLORS = [
+  '#60a5fa', // blue-400
+  '#f97316', // orange-500
+  '#4ade80', // green-400
+  '#c084fc', // purple-400
+  '#2dd4bf', // teal-400
+  '#f472b6', // pink-400
+  '#facc15', // yellow-400
+  '#f87171', // red-400
+];
+
+// Graph geometry (px). The node is level with the centre of the commit avatar.
+export const GRAPH_LANE_WIDTH = 14;
+export const GRAPH_PADDING = 8;
+export const GRAPH_NODE_Y = 28;
+
+export interface GraphSegment {
+  fromLane: number;
+  toLane: number;
+  color: string;
+}
+
+/**
+ * Graph data for one commit row. Lines are split at the commit node:
+ * `incoming` runs from the top of the row into the node, `outgoing` from the
+ * node to the bottom of the row, and `passing` crosses the row untouched.
+ */
+export interface CommitGraphRow {
+  lane: number;
+  color: string;
+  incoming: GraphSegment[];
+  outgoing: GraphSegment[];
+  passing: GraphSegment[];
+  laneCount: number; // Lanes in use at this row, for sizing the graph column
+}
+
+interface Lane {
+  hash: string; // Commit this lane is waiting for
+  color: string;
+}
+
+/**
+ * Assign commits to lanes and compute the line segments to draw for each row.
+ *
+ * Commits must be ordered so that children come before their parents (as with
+ * `git log --date-order`). The graph is computed over the whole loaded list, so
+ * pages appended by pagination continue the lanes of earlier ones; parents not
+ * loaded yet simply keep their lane open past the last row.
+ */
+export function computeCommitGraph(commits: CommitInfo[]): Map<string, CommitGraphRow> {
+  const rows = new Map<string, CommitGraphRow>();
+  const lanes: (Lane | null)[] = [];
+  let colorIndex = 0;
+
+  const nextColor = () => GRAPH_COLORS[colorIndex++ % GRAPH_COLORS.length];
+
+  // Reuse the first free lane (never one in `reserved`) or open a new one
+  const openLane = (lane: Lane, reserved: number): number => {
+    const free = lanes.findIndex((l, index) => l === null && index !== reserved);
+    if (free !== -1) {
+      lanes[free] = lane;
+      return free;
+    }
+    lanes.push(lane);
+    return lanes.length - 1;
+  };
+
+  for (const commit of commits) {
+    // Lanes that were waiting for this commit (several when branches fork from it)
+    const waiting: number[] = [];
+    lanes.forEach((lane, index) => {
+      if (lane?.hash === commit.hash) waiting.push(index);
+    });
+
+    let nodeLane: number;
+    let color: string;
+    if (waiting.length > 0) {
+      nodeLane = waiting[0];
+      color = lanes[nodeLane]!.color;
+    } else {
+      // Branch tip: nothing above points here yet
+      color = nextColor();
+      nodeLane = openLane({ hash: commit.hash, color }, -1);
+    }
+
+    const incoming: GraphSegment[] = waiting.map((index) => ({
+      fromLane: index,
+      toLane: nodeLane,
+      color: lanes[index]!.color,
+    }));
+
+    const passing: GraphSegment[] = [];
+    lanes.forEach((lane, index) => {
+      if (lane && lane.hash !== commit.hash) {
+        passing.push({ fromLane: index, toLane: index, color: lane.color });
+      }
+    });
+
+    // Every lane that ended at this commit is free again
+    for (const index of waiting) {
+      lanes[index] = null;
+    }
+    lanes[nodeLane] = null;
+
+    const outgoing: GraphSegment[] = [];
+    commit.parents.forEach((parent, parentIndex) => {
+      const existing = lanes.findIndex((lane) => lane?.hash === parent);
+
+      if (existing !== -1) {
+        // Another lane already leads to this parent - join it
+        outgoing.push({ fromLane: nodeLane, toLane: existing, color: lanes[existing]!.color });
+        return;
+      }
+
+      if (parentIndex === 0) {
+        // The first parent continues the commit's own lane
+        lanes[nodeLane] = { hash: parent, color };
+        outgoing.push({ fromLane: nodeLane, toLane: nodeLane, color });
+        return;
+      }
+
+      // Merged-in parents (any number, for octopus merges) get lanes of their own
+      const mergeColor = nextColor();
+      const lane = openLane({ hash: parent, color: mergeColor }, nodeLane);
+      outgoing.push({ fromLane: nodeLane, toLane: lane, color: mergeColor });
+    });
+
+    // Trim free lanes at the end so the column doesn't stay wide
+    while (lanes.length > 0 && lanes[lanes.length - 1] === null) {
+      lanes.pop();
+    }
+
+    const usedLanes = [
+      nodeLane,
+      ...incoming.map((s) => s.fromLane),
+      ...passing.map((s) => s.fromLane),
+      ...outgoing.map((s) => s.toLane),
+    ];
+
+    rows.set(commit.hash, {
+      lane: nodeLane,
+      color,
+      incoming,
+      outgoing,
+      passing,
+      laneCount: Math.max(...usedLanes) + 1,
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Horizontal centre of a lane within the graph column
+ */
+export function laneX(lane: number): number {
+  return GRAPH_PADDING + lane * GRAPH_LANE_WIDTH + GRAPH_LANE_WIDTH / 2;
+}
+
+/**
+ * Width of the graph column for a row
+ */
+export function graphWidth(row: CommitGraphRow | undefined): number {
+  return GRAPH_PADDING * 2 + (row?.laneCount ?? 1) * GRAPH_LANE_WIDTH;
+}
@@ -10,6 +10,24 @@ export interface DiffLine {
   newLineNum?: number;
 }
 
+/**
+ * Line in the new version of the file to show for a diff line. Deleted lines
+ * map to the line that now follows them.
+ */
+export function newFileLine(hunk: DiffHunk, lineIndex: number): number {
+  for (let i = lineIndex; i < hunk.lines.length; i++) {
+    const line = hunk.lines[i].newLineNum;
+    if (line !== undefined) return line;
+  }
+  for (let i = lineIndex - 1; i >= 0; i--) {
+    const line = hunk.lines[i].newLineNum;
+    if (line !== undefined) return line + 1;
+  }
+
+  const match = hunk.header.match(/\+(\d+)/);
+  return Math.max(1, match ? parseInt(match[1], 10) : 1);
+}
+
 export function parseDiffText(text: string): DiffHunk[] {
   const hunks: DiffHunk[] = [];
   const lines = text.split('\n');
@@ -17,63 +35,76 @@ export function parseDiffText(text: string): DiffHunk[] {
   let currentHunk: DiffHunk | null = null;
   let oldLine = 0;
   let newLine = 0;
+  // Lines left in the current hunk. Counting them (rather than matching prefixes) keeps
+  // content like "--- x" or blank lines in the hunk, so line indexes match the main
+  // process parser used for hunk staging.
+  let oldRemaining = 0;
+  let newRemaining = 0;
 
   for (const line of lines) {
-    // Skip diff metadata
-    if (
-      line.startsWith('commit ') ||
-      line.startsWith('Author:') ||
-      line.startsWith('Date:') ||
-      line.startsWith('diff --git') ||
-      line.startsWith('index ') ||
-      line.startsWith('---') ||
-      line.startsWith('+++') ||
-      line.startsWith('\\') ||
-      line.trim() === ''
-    ) {
+    // "\ No newline at end of file"
+    if (line.startsWith('\\')) {
       continue;
     }
 
-    // Hunk header
-    const hunkMatch = line.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@(.*)$/);
+    if (currentHunk && (oldRemaining > 0 || newRemaining > 0)) {
+      if (line.startsWith('+')) {
+        currentHunk.lines.push({
+          type: 'addition',
+          content: line.slice(1),
+          newLineNum: newLine++,
+        });
+        newRemaining--;
+      } else if (line.startsWith('-')) {
+        currentHunk.lines.push({
+          type: 'deletion',
+          content: line.slice(1),
+          oldLineNum: oldLine++,
+        });
+        oldRemaining--;
+      } else {
+        currentHunk.lines.push({
+          type: 'context',
+          content: line.slice(1) || '',
+          oldLineNum: oldLine++,
+          newLineNum: newLine++,
+        });
+        oldRemaining--;
+        newRemaining--;
+      }
+      continue;
+    }
+
+    // Hunk header (anything else between hunks is diff metadata)
+    const hunkMatch = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/);
     if (hunkMatch) {
       if (currentHunk) {
         hunks.push(currentHunk);
       }
       oldLine = parseInt(hunkMatch[1], 10);
-      newLine = parseInt(hunkMatch[2], 10);
+      newLine = parseInt(hunkMatch[3], 10);
+      oldRemaining = parseInt(hunkMatch[2] ?? '1', 10);
+      newRemaining = parseInt(hunkMatch[4] ?? '1', 10);
       currentHunk = {
         header: line,
         lines: [],
       };
-      continue;
     }
+  }
 
-    if (!currentHunk) continue;
-
-    if (line.startsWith('+')) {
-      currentHunk.lines.push({
-        type: 'addition',
-        content: line.slice(1),
-        newLineNum: newLine++,
-      });
-    } else if (line.startsWith('-')) {
-      currentHunk.lines.push({
-        type: 'deletion',
-        content: line.slice(1),
-        oldLineNum: oldLine++,
-      });
-    } else {
+  if (currentHunk) {
+    // Diff output arrives trimmed, which drops trailing blank context lines - restore them
+    while (oldRemaining > 0 && newRemaining > 0) {
       currentHunk.lines.push({
         type: 'context',
-        content: line.slice(1) || '',
+        content: '',
         oldLineNum: oldLine++,
         newLineNum: newLine++,
       });
+      oldRemaining--;
+      newRemaining--;
     }
-  }
 
-  if (currentHunk) {
     hunks.push(currentHunk);
   }
 
@@ -0,0 +1,24 @@
+import type { RemoteInfo } from '~/types/githulu';
+
+/**
+ * Remote a remote-tracking ref like "upstream/feature/x" belongs to. Remote names
+ * may contain slashes, so the longest matching name wins.
+ */
+export function remoteOfRef(remotes: RemoteInfo[], ref: string): RemoteInfo | null {
+  return (
+    remotes
+      .filter((remote) => ref.startsWith(`${remote.name}/`))
+      .sort((a, b) => b.name.length - a.name.length)[0] ?? null
+  );
+}
+
+/**
+ * Remote to preselect in pickers: the upstream's remote, otherwise origin,
+ * otherwise the first one ('' without remotes)
+ */
+export function defaultRemoteName(remotes: RemoteInfo[], upstream?: string | null): string {
+  const tracked = upstream ? remoteOfRef(remotes, upstream) : null;
+  if (tracked) return tracked.name;
+
+  return remotes.find((remote) => remote.name === 'origin')?.name ?? remotes[0]?.name ?? '';
+}
@@ -0,0 +1,16 @@
+import type { SequencerOperation } from '~/types/githulu';
+
+// Display names for operations that pause on conflicts (RebaseState.operation)
+const SEQUENCER_LABELS: Record<SequencerOperation, string> = {
+  rebase: 'Rebase',
+  'cherry-pick': 'Cherry-pick',
+  revert: 'Revert',
+  merge: 'Merge',
+};
+
+/**
+ * Display name for the paused operation (older states without `operation` are rebases)
+ */
+export function sequencerLabel(operation?: SequencerOperation): string {
+  return SEQUENCER_LABELS[operation ?? 'rebase'];
+}
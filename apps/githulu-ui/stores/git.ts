@@ -5,6 +5,30 @@ import type {
   OpResult,
   FileChange,
   StashListResult,
+  RebaseState,
+  RebaseTodoEntry,
+  RebaseTodoResult,
+  TagListResult,
+  HunkSelection,
+  PatchAction,
+  DiscardSnapshotListResult,
+  RevertOptions,
+  MergeOptions,
+  DeletedBranch,
+  DeleteBranchResult,
+  MergedBranchesResult,
+  ConflictFileResult,
+  ConflictSide,
+  StashDetailResult,
+  StashPushOptions,
+  RemotesResult,
+  PullOptions,
+  AutoFetchState,
+  WorktreesResult,
+  AddWorktreeOptions,
+  SubmodulesResult,
+  GitProgress,
+  OperationProgressEvent,
 } from '~/types/githulu';
 
 interface OperationProgress {
@@ -12,6 +36,10 @@ interface OperationProgress {
   type: string;
   opId: string;
   lines: string[];
+  progress: GitProgress | null; // Latest phase of git's progress output
+  cancellable?: boolean; // Set once the main process reports the operation's opId
+  uncancellable?: boolean; // Reached a step that can't be cancelled (e.g. the merge of a pull)
+  cancelled?: boolean;
   completed?: boolean;
   success?: boolean;
 }
@@ -27,7 +55,14 @@ interface OperationError {
 interface GitState {
   statusCache: Map<string, RepoStatus>;
   branchesCache: Map<string, BranchesResult>;
+  remotesCache: Map<string, RemotesResult>;
+  worktreesCache: Map<string, WorktreesResult>;
+  submodulesCache: Map<string, SubmodulesResult>;
   stashCache: Map<string, StashListResult>;
+  tagsCache: Map<string, TagListResult>;
+  discardedCache: Map<string, DiscardSnapshotListResult>;
+  deletedBranches: Map<string, DeletedBranch[]>; // Session only, most recent first
+  autoFetchStates: Map<string, AutoFetchState>;
   currentOperation: OperationProgress | null;
   errors: OperationError[];
   loading: Map<string, boolean>;
@@ -37,7 +72,14 @@ export const useGitStore = defineStore('git', {
   state: (): GitState => ({
     statusCache: new Map(),
     branchesCache: new Map(),
+    remotesCache: new Map(),
+    worktreesCache: new Map(),
+    submodulesCache: new Map(),
     stashCache: new Map(),
+    tagsCache: new Map(),
+    discardedCache: new Map(),
+    deletedBranches: new Map(),
+    autoFetchStates: new Map(),
     currentOperation: null,
     errors: [],
     loading: new Map(),
@@ -56,12 +98,54 @@ export const useGitStore = defineStore('git', {
       };
     },
 
+    getRemotes(state) {
+      return (repoId: string): RemotesResult | null => {
+        return state.remotesCache.get(repoId) || null;
+      };
+    },
+
+    getWorktrees(state) {
+      return (repoId: string): WorktreesResult | null => {
+        return state.worktreesCache.get(repoId) || null;
+      };
+    },
+
+    getSubmodules(state) {
+      return (repoId: string): SubmodulesResult | null => {
+        return state.submodulesCache.get(repoId) || null;
+      };
+    },
+
     getStashes(state) {
       return (repoId: string): StashListResult | null => {
         return state.stashCache.get(repoId) || null;
       };
     },
 
+    getTags(state) {
+      return (repoId: string): TagListResult | null => {
+        return state.tagsCache.get(repoId) || null;
+      };
+    },
+
+    getDiscarded(state) {
+      return (repoId: string): DiscardSnapshotListResult | null => {
+        return state.discardedCache.get(repoId) || null;
+      };
+    },
+
+    getDeletedBranches(state) {
+      return (repoId: string): DeletedBranch[] => {
+        return state.deletedBranches.get(repoId) || [];
+      };
+    },
+
+    getAutoFetchState(state) {
+      return (repoId: string): AutoFetchState | null => {
+        return state.autoFetchStates.get(repoId) || null;
+      };
+    },
+
     isLoading(state) {
       return (repoId: string): boolean => {
         return state.loading.get(repoId) || false;
@@ -134,13 +218,13 @@ export const useGitStore = defineStore('git', {
 
     // Fetch from remote - should work regardless of working directory state
     // (pending changes, rebase, etc.) since fetch only updates remote refs
-    async fetch(repoId: string): Promise<OpResult | null> {
+    async fetch(repoId: string, remote?: string): Promise<OpResult | null> {
       if (!window.githulu) return null;
 
       this.startOperation(repoId, 'fetch');
 
       try {
-        const result = await window.githulu.git.fetch(repoId);
+        const result = await window.githulu.git.fetch(repoId, remote);
         this.endOperation();
         return result;
       } catch (err) {
@@ -150,6 +234,33 @@ export const useGitStore = defineStore('git', {
       }
     },
 
+    async fetchAll(repoId: string): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      this.startOperation(repoId, 'fetch');
+
+      try {
+        const result = await window.githulu.git.fetchAll(repoId);
+        this.endOperation();
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'fetch', 'Failed to fetch from remotes', err);
+        this.endOperation(false);
+        return null;
+      }
+    },
+
+    async loadAutoFetchStates() {
+      if (!window.githulu) return;
+
+      try {
+        const states = await window.githulu.repos.autoFetchStates();
+        this.autoFetchStates = new Map(states.map((state) => [state.repoId, state]));
+      } catch (err) {
+        console.error('[githulu] Failed to load auto-fetch states:', err);
+      }
+    },
+
     async push(repoId: string, branch: string): Promise<OpResult | null> {
       if (!window.githulu) return null;
 
@@ -189,10 +300,7 @@ export const useGitStore = defineStore('git', {
       }
     },
 
-    async pull(
-      repoId: string,
-      options?: { remote?: string; rebase?: boolean }
-    ): Promise<OpResult | null> {
+    async pull(repoId: string, options?: PullOptions): Promise<OpResult | null> {
       if (!window.githulu) return null;
 
       // Note: Pull with rebase requires a clean working directory
@@ -200,7 +308,8 @@ export const useGitStore = defineStore('git', {
       this.startOperation(repoId, 'pull');
 
       try {
-        const result = await window.githulu.git.pull(repoId, options);
+        // Unwrap reactive proxies - IPC can only clone plain objects
+        const result = await window.githulu.git.pull(repoId, { ...options });
         this.endOperation();
         return result;
       } catch (err) {
@@ -210,13 +319,13 @@ export const useGitStore = defineStore('git', {
       }
     },
 
-    async publish(repoId: string, branch: string): Promise<OpResult | null> {
+    async publish(repoId: string, branch: string, remote?: string): Promise<OpResult | null> {
       if (!window.githulu) return null;
 
       this.startOperation(repoId, 'publish');
 
       try {
-        const result = await window.githulu.git.publish(repoId, branch);
+        const result = await window.githulu.git.publish(repoId, branch, remote);
         this.endOperation();
         return result;
       } catch (err) {
@@ -226,6 +335,187 @@ export const useGitStore = defineStore('git', {
       }
     },
 
+    // Remote operations
+    async fetchRemotes(repoId: string): Promise<RemotesResult | null> {
+      if (!window.githulu) return null;
+
+      try {
+        const result = await window.githulu.git.remotes(repoId);
+        this.remotesCache.set(repoId, result);
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'fetchRemotes', 'Failed to fetch remotes', err);
+        return null;
+      }
+    },
+
+    async addRemote(repoId: string, name: string, url: string): Promise<OpResult | null> {
+      return this.runRemoteCommand(repoId, 'Failed to add remote', () =>
+        window.githulu.git.addRemote(repoId, name, url)
+      );
+    },
+
+    async renameRemote(repoId: string, oldName: string, newName: string): Promise<OpResult | null> {
+      return this.runRemoteCommand(repoId, 'Failed to rename remote', () =>
+        window.githulu.git.renameRemote(repoId, oldName, newName)
+      );
+    },
+
+    async removeRemote(repoId: string, name: string): Promise<OpResult | null> {
+      return this.runRemoteCommand(repoId, 'Failed to remove remote', () =>
+        window.githulu.git.removeRemote(repoId, name)
+      );
+    },
+
+    async setRemoteUrl(
+      repoId: string,
+      name: string,
+      url: string,
+      push?: boolean
+    ): Promise<OpResult | null> {
+      return this.runRemoteCommand(repoId, 'Failed to change remote URL', () =>
+        window.githulu.git.setRemoteUrl(repoId, name, url, push)
+      );
+    },
+
+    // Run a remote command, then reload remotes and branches (renaming or removing a remote
+    // changes its remote-tracking branches)
+    async runRemoteCommand(
+      repoId: string,
+      errorMessage: string,
+      run: () => Promise<OpResult>
+    ): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      try {
+        const result = await run();
+        if (result?.success) {
+          await Promise.all([this.fetchRemotes(repoId), this.fetchBranches(repoId)]);
+        }
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'remote', errorMessage, err);
+        return null;
+      }
+    },
+
+    // Worktree operations
+    async fetchWorktrees(repoId: string): Promise<WorktreesResult | null> {
+      if (!window.githulu) return null;
+
+      try {
+        const result = await window.githulu.git.worktrees(repoId);
+        this.worktreesCache.set(repoId, result);
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'fetchWorktrees', 'Failed to fetch worktrees', err);
+        return null;
+      }
+    },
+
+    async addWorktree(repoId: string, options: AddWorktreeOptions): Promise<OpResult | null> {
+      return this.runWorktreeCommand(repoId, 'Failed to add worktree', () =>
+        // Unwrap reactive proxies - IPC can only clone plain objects
+        window.githulu.git.addWorktree(repoId, { ...options })
+      );
+    },
+
+    async removeWorktree(
+      repoId: string,
+      worktreePath: string,
+      force?: boolean
+    ): Promise<OpResult | null> {
+      return this.runWorktreeCommand(repoId, 'Failed to remove worktree', () =>
+        window.githulu.git.removeWorktree(repoId, worktreePath, force)
+      );
+    },
+
+    async pruneWorktrees(repoId: string): Promise<OpResult | null> {
+      return this.runWorktreeCommand(repoId, 'Failed to prune worktrees', () =>
+        window.githulu.git.pruneWorktrees(repoId)
+      );
+    },
+
+    // Run a worktree command, then reload worktrees and branches (adding a worktree can
+    // create a branch)
+    async runWorktreeCommand(
+      repoId: string,
+      errorMessage: string,
+      run: () => Promise<OpResult>
+    ): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      try {
+        const result = await run();
+        if (result?.success) {
+          await Promise.all([this.fetchWorktrees(repoId), this.fetchBranches(repoId)]);
+        }
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'worktree', errorMessage, err);
+        return null;
+      }
+    },
+
+    // Submodule operations (without paths they apply to all submodules)
+    async fetchSubmodules(repoId: string): Promise<SubmodulesResult | null> {
+      if (!window.githulu) return null;
+
+      try {
+        const result = await window.githulu.git.submodules(repoId);
+        this.submodulesCache.set(repoId, result);
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'fetchSubmodules', 'Failed to fetch submodules', err);
+        return null;
+      }
+    },
+
+    async initSubmodules(repoId: string, paths?: string[]): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      try {
+        // Unwrap reactive proxies - IPC can only clone plain objects
+        const result = await window.githulu.git.initSubmodules(repoId, paths && [...paths]);
+        await this.fetchSubmodules(repoId);
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'initSubmodules', 'Failed to initialize submodules', err);
+        return null;
+      }
+    },
+
+    // Update clones missing submodules, so it reports progress like a fetch
+    async updateSubmodules(repoId: string, paths?: string[]): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      this.startOperation(repoId, 'submodule update');
+
+      try {
+        const result = await window.githulu.git.updateSubmodules(repoId, paths && [...paths]);
+        this.endOperation(result.success);
+        await this.fetchSubmodules(repoId);
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'updateSubmodules', 'Failed to update submodules', err);
+        this.endOperation(false);
+        return null;
+      }
+    },
+
+    async syncSubmodules(repoId: string, paths?: string[]): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      try {
+        const result = await window.githulu.git.syncSubmodules(repoId, paths && [...paths]);
+        await this.fetchSubmodules(repoId);
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'syncSubmodules', 'Failed to sync submodules', err);
+        return null;
+      }
+    },
+
     async createBranch(repoId: string, name: string, from: string): Promise<OpResult | null> {
       if (!window.githulu) {
         console.error('[githulu] createBranch: API not available');
@@ -310,123 +600,613 @@ export const useGitStore = defineStore('git', {
       }
     },
 
-    async stageFile(repoId: string, filePath: string): Promise<OpResult | null> {
+    async deleteBranch(
+      repoId: string,
+      name: string,
+      force = false
+    ): Promise<DeleteBranchResult | null> {
       if (!window.githulu) return null;
 
       try {
-        const result = await window.githulu.git.stageFile(repoId, filePath);
-        if (result?.success) {
-          // Refresh status to update UI
-          await this.fetchStatus(repoId);
+        const result = await window.githulu.git.deleteBranch(repoId, name, force);
+        this.recordDeletedBranches(repoId, result.deleted);
+        if (result.success) {
+          await this.fetchBranches(repoId);
         }
         return result;
       } catch (err) {
-        this.addError(repoId, 'stage', 'Failed to stage file', err);
+        this.addError(repoId, 'deleteBranch', 'Failed to delete branch', err);
         return null;
       }
     },
 
-    async unstageFile(repoId: string, filePath: string): Promise<OpResult | null> {
+    async deleteRemoteBranch(
+      repoId: string,
+      remote: string,
+      name: string
+    ): Promise<DeleteBranchResult | null> {
       if (!window.githulu) return null;
 
+      this.startOperation(repoId, 'deleteRemoteBranch');
+
       try {
-        const result = await window.githulu.git.unstageFile(repoId, filePath);
-        if (result?.success) {
-          // Refresh status to update UI
-          await this.fetchStatus(repoId);
+        const result = await window.githulu.git.deleteRemoteBranch(repoId, remote, name);
+        this.recordDeletedBranches(repoId, result.deleted);
+        if (result.success) {
+          await this.fetchBranches(repoId);
         }
+        this.endOperation(result?.success ?? false);
         return result;
       } catch (err) {
-        this.addError(repoId, 'unstage', 'Failed to unstage file', err);
+        this.addError(repoId, 'deleteRemoteBranch', 'Failed to delete remote branch', err);
+        this.endOperation(false);
         return null;
       }
     },
 
-    async rebaseStart(repoId: string, onto: string): Promise<OpResult | null> {
+    async fetchMergedBranches(repoId: string): Promise<MergedBranchesResult | null> {
       if (!window.githulu) return null;
 
-      this.startOperation(repoId, 'rebase');
-
       try {
-        const result = await window.githulu.git.rebaseStart(repoId, onto);
-        this.endOperation();
-        return result;
+        return await window.githulu.git.mergedBranches(repoId);
       } catch (err) {
-        this.addError(repoId, 'rebase', 'Failed to start rebase', err);
-        this.endOperation(false);
+        this.addError(repoId, 'mergedBranches', 'Failed to list merged branches', err);
         return null;
       }
     },
 
-    async rebaseContinue(repoId: string): Promise<OpResult | null> {
+    async deleteMergedBranches(
+      repoId: string,
+      names: string[]
+    ): Promise<DeleteBranchResult | null> {
       if (!window.githulu) return null;
 
-      this.startOperation(repoId, 'rebase-continue');
-
       try {
-        const result = await window.githulu.git.rebaseContinue(repoId);
-        this.endOperation();
+        // Unwrap reactive proxies - IPC can only clone plain objects
+        const result = await window.githulu.git.deleteMergedBranches(repoId, [...names]);
+        this.recordDeletedBranches(repoId, result.deleted);
+        // Refresh even on failure - some of the branches may have been deleted
+        await this.fetchBranches(repoId);
         return result;
       } catch (err) {
-        this.addError(repoId, 'rebase', 'Failed to continue rebase', err);
-        this.endOperation(false);
+        this.addError(repoId, 'deleteMergedBranches', 'Failed to delete merged branches', err);
         return null;
       }
     },
 
-    async rebaseAbort(repoId: string): Promise<OpResult | null> {
+    async restoreBranch(repoId: string, branch: DeletedBranch): Promise<OpResult | null> {
       if (!window.githulu) return null;
 
       try {
-        const result = await window.githulu.git.rebaseAbort(repoId);
+        // Unwrap reactive proxies - IPC can only clone plain objects
+        const result = await window.githulu.git.restoreBranch(repoId, { ...branch });
+        if (result.success) {
+          this.deletedBranches.set(
+            repoId,
+            this.getDeletedBranches(repoId).filter(
+              (b) => b.name !== branch.name || b.remote !== branch.remote
+            )
+          );
+          await this.fetchBranches(repoId);
+        }
         return result;
       } catch (err) {
-        this.addError(repoId, 'rebase', 'Failed to abort rebase', err);
+        this.addError(repoId, 'restoreBranch', 'Failed to restore branch', err);
         return null;
       }
     },
 
-    // Update status from event
-    updateStatus(repoId: string, status: RepoStatus) {
-      this.statusCache.set(repoId, status);
+    recordDeletedBranches(repoId: string, deleted: DeletedBranch[]) {
+      if (deleted.length === 0) return;
+      this.deletedBranches.set(repoId, [...deleted, ...this.getDeletedBranches(repoId)]);
     },
 
-    // Operation progress tracking
-    startOperation(repoId: string, type: string) {
-      this.currentOperation = {
-        repoId,
-        type,
-        opId: `op_${Date.now()}`,
-        lines: [],
-      };
+    async stageFile(repoId: string, filePath: string): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      try {
+        const result = await window.githulu.git.stageFile(repoId, filePath);
+        if (result?.success) {
+          // Refresh status to update UI
+          await this.fetchStatus(repoId);
+        }
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'stage', 'Failed to stage file', err);
+        return null;
+      }
     },
 
-    addProgressLine(line: string) {
-      if (this.currentOperation) {
-        this.currentOperation.lines.push(line);
+    async unstageFile(repoId: string, filePath: string): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      try {
+        const result = await window.githulu.git.unstageFile(repoId, filePath);
+        if (result?.success) {
+          // Refresh status to update UI
+          await this.fetchStatus(repoId);
+        }
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'unstage', 'Failed to unstage file', err);
+        return null;
       }
     },
 
-    endOperation(success: boolean = true) {
-      if (this.currentOperation) {
-        this.currentOperation.completed = true;
-        this.currentOperation.success = success;
+    // Stage, unstage or discard selected hunks/lines of a file
+    async applyHunks(
+      repoId: string,
+      filePath: string,
+      action: PatchAction,
+      selections: HunkSelection[]
+    ): Promise<OpResult | null> {
+      if (!window.githulu) return null;
 
-        // Auto-dismiss after a short delay
-        setTimeout(() => {
-          this.currentOperation = null;
-        }, 1500);
+      try {
+        // Unwrap reactive proxies - IPC can only clone plain objects
+        const result = await window.githulu.git.applyHunks(
+          repoId,
+          filePath,
+          action,
+          selections.map((selection) => ({
+            ...selection,
+            lineIndexes: selection.lineIndexes ? [...selection.lineIndexes] : undefined,
+          }))
+        );
+        if (result?.success) {
+          // Refresh status to update UI; a discard also leaves a snapshot to restore
+          await Promise.all([
+            this.fetchStatus(repoId),
+            action === 'discard' ? this.fetchDiscarded(repoId) : undefined,
+          ]);
+        }
+        return result;
+      } catch (err) {
+        this.addError(repoId, action, `Failed to ${action} selected changes`, err);
+        return null;
       }
     },
 
-    clearOperation() {
-      this.currentOperation = null;
+    // Discard operations (each one leaves a snapshot that can be restored)
+    async discardFile(repoId: string, filePath: string): Promise<OpResult | null> {
+      return this.runDiscard(repoId, 'discardFile', 'Failed to discard changes', () =>
+        window.githulu.git.discardFile(repoId, filePath)
+      );
     },
 
-    // Error management
-    addError(repoId: string, opId: string, message: string, err: unknown) {
-      this.errors.push({
-        repoId,
+    async discardAll(repoId: string): Promise<OpResult | null> {
+      return this.runDiscard(repoId, 'discardAll', 'Failed to discard all changes', () =>
+        window.githulu.git.discardAll(repoId)
+      );
+    },
+
+    async removeUntracked(repoId: string): Promise<OpResult | null> {
+      return this.runDiscard(repoId, 'removeUntracked', 'Failed to remove untracked files', () =>
+        window.githulu.git.removeUntracked(repoId)
+      );
+    },
+
+    async runDiscard(
+      repoId: string,
+      type: string,
+      errorMessage: string,
+      run: () => Promise<OpResult>
+    ): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      this.startOperation(repoId, type);
+
+      try {
+        const result = await run();
+
+        if (result?.success) {
+          await Promise.all([this.fetchStatus(repoId), this.fetchDiscarded(repoId)]);
+        }
+
+        this.endOperation(result?.success ?? false);
+        return result;
+      } catch (err) {
+        this.addError(repoId, type, errorMessage, err);
+        this.endOperation(false);
+        return null;
+      }
+    },
+
+    async fetchDiscarded(repoId: string): Promise<void> {
+      if (!window.githulu) return;
+
+      try {
+        const result = await window.githulu.git.discardedList(repoId);
+        this.discardedCache.set(repoId, result);
+      } catch (err) {
+        this.addError(repoId, 'fetchDiscarded', 'Failed to fetch discarded changes', err);
+      }
+    },
+
+    async restoreDiscarded(repoId: string, id: string): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      try {
+        const result = await window.githulu.git.restoreDiscarded(repoId, id);
+
+        if (result?.success) {
+          await Promise.all([this.fetchStatus(repoId), this.fetchDiscarded(repoId)]);
+        }
+
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'restoreDiscarded', 'Failed to restore discarded changes', err);
+        return null;
+      }
+    },
+
+    async rebaseStart(repoId: string, onto: string): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      this.startOperation(repoId, 'rebase');
+
+      try {
+        const result = await window.githulu.git.rebaseStart(repoId, onto);
+        this.endOperation();
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'rebase', 'Failed to start rebase', err);
+        this.endOperation(false);
+        return null;
+      }
+    },
+
+    async loadRebaseTodo(repoId: string, onto: string): Promise<RebaseTodoResult | null> {
+      if (!window.githulu) return null;
+
+      try {
+        return await window.githulu.git.rebaseTodo(repoId, onto);
+      } catch (err) {
+        this.addError(repoId, 'rebaseTodo', 'Failed to load commits to rebase', err);
+        return null;
+      }
+    },
+
+    async rebaseInteractive(
+      repoId: string,
+      onto: string,
+      entries: RebaseTodoEntry[]
+    ): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      this.startOperation(repoId, 'rebase');
+
+      try {
+        // Unwrap reactive proxies - IPC can only clone plain objects
+        const result = await window.githulu.git.rebaseInteractive(
+          repoId,
+          onto,
+          entries.map((entry) => ({ ...entry }))
+        );
+        this.endOperation(result.success);
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'rebase', 'Failed to start interactive rebase', err);
+        this.endOperation(false);
+        return null;
+      }
+    },
+
+    async rebaseContinue(repoId: string): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      this.startOperation(repoId, 'rebase-continue');
+
+      try {
+        const result = await window.githulu.git.rebaseContinue(repoId);
+        this.endOperation();
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'rebase', 'Failed to continue rebase', err);
+        this.endOperation(false);
+        return null;
+      }
+    },
+
+    async rebaseAbort(repoId: string): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      try {
+        const result = await window.githulu.git.rebaseAbort(repoId);
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'rebase', 'Failed to abort rebase', err);
+        return null;
+      }
+    },
+
+    async cherryPick(repoId: string, hashes: string[]): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      this.startOperation(repoId, 'cherry-pick');
+
+      try {
+        // Unwrap reactive proxies - IPC can only clone plain objects
+        const result = await window.githulu.git.cherryPick(repoId, [...hashes]);
+        this.endOperation(result?.success ?? false);
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'cherry-pick', 'Failed to cherry-pick', err);
+        this.endOperation(false);
+        return null;
+      }
+    },
+
+    async revert(
+      repoId: string,
+      hashes: string[],
+      options?: RevertOptions
+    ): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      this.startOperation(repoId, 'revert');
+
+      try {
+        // Unwrap reactive proxies - IPC can only clone plain objects
+        const result = await window.githulu.git.revert(repoId, [...hashes], { ...options });
+        this.endOperation(result?.success ?? false);
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'revert', 'Failed to revert', err);
+        this.endOperation(false);
+        return null;
+      }
+    },
+
+    async merge(repoId: string, branch: string, options?: MergeOptions): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      this.startOperation(repoId, 'merge');
+
+      try {
+        // Unwrap reactive proxies - IPC can only clone plain objects
+        const result = await window.githulu.git.merge(repoId, branch, { ...options });
+        this.endOperation(result?.success ?? false);
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'merge', 'Failed to merge', err);
+        this.endOperation(false);
+        return null;
+      }
+    },
+
+    // Continue/skip/abort apply to whichever operation is paused (rebase, cherry-pick, revert or merge)
+    async sequencerContinue(repoId: string): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      this.startOperation(repoId, 'sequencer-continue');
+
+      try {
+        const result = await window.githulu.git.sequencerContinue(repoId);
+        this.endOperation(result?.success ?? false);
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'sequencer', 'Failed to continue', err);
+        this.endOperation(false);
+        return null;
+      }
+    },
+
+    async sequencerSkip(repoId: string): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      this.startOperation(repoId, 'sequencer-skip');
+
+      try {
+        const result = await window.githulu.git.sequencerSkip(repoId);
+        this.endOperation(result?.success ?? false);
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'sequencer', 'Failed to skip commit', err);
+        this.endOperation(false);
+        return null;
+      }
+    },
+
+    async sequencerAbort(repoId: string): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      try {
+        const result = await window.githulu.git.sequencerAbort(repoId);
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'sequencer', 'Failed to abort', err);
+        return null;
+      }
+    },
+
+    // Conflict editor
+    async loadConflictFile(repoId: string, filePath: string): Promise<ConflictFileResult | null> {
+      if (!window.githulu) return null;
+
+      try {
+        return await window.githulu.git.conflictFile(repoId, filePath);
+      } catch (err) {
+        this.addError(repoId, 'conflictFile', 'Failed to load conflicts', err);
+        return null;
+      }
+    },
+
+    async resolveConflict(
+      repoId: string,
+      filePath: string,
+      content: string
+    ): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      try {
+        const result = await window.githulu.git.resolveConflict(repoId, filePath, content);
+        if (result?.success) {
+          // Refresh status to update UI
+          await this.fetchStatus(repoId);
+        }
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'resolveConflict', 'Failed to save resolved file', err);
+        return null;
+      }
+    },
+
+    async resolveConflictSide(
+      repoId: string,
+      filePath: string,
+      side: ConflictSide
+    ): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      try {
+        const result = await window.githulu.git.resolveConflictSide(repoId, filePath, side);
+        if (result?.success) {
+          // Refresh status to update UI
+          await this.fetchStatus(repoId);
+        }
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'resolveConflict', `Failed to take ${side} version`, err);
+        return null;
+      }
+    },
+
+    // Resolves when the user closes the tool
+    async openMergeTool(repoId: string, filePath: string): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      try {
+        const result = await window.githulu.git.mergetool(repoId, filePath);
+        if (result?.success) {
+          // Refresh status to update UI
+          await this.fetchStatus(repoId);
+        }
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'mergetool', 'Failed to run merge tool', err);
+        return null;
+      }
+    },
+
+    // Resolves when the user closes the tool
+    async openDiffTool(
+      repoId: string,
+      filePath: string,
+      staged: boolean
+    ): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      try {
+        return await window.githulu.git.difftool(repoId, filePath, staged);
+      } catch (err) {
+        this.addError(repoId, 'difftool', 'Failed to run diff tool', err);
+        return null;
+      }
+    },
+
+    // Update status from event
+    updateStatus(repoId: string, status: RepoStatus) {
+      this.statusCache.set(repoId, status);
+    },
+
+    updateAutoFetchState(repoId: string, state: AutoFetchState) {
+      this.autoFetchStates.set(repoId, state);
+    },
+
+    // Update rebase state from event (conflicts arrive with the next status update)
+    updateRebaseState(repoId: string, state: RebaseState) {
+      const status = this.statusCache.get(repoId);
+      if (!status) return;
+
+      this.statusCache.set(repoId, {
+        ...status,
+        rebase: {
+          ...state,
+          conflicts: state.inProgress ? status.rebase.conflicts : [],
+        },
+        operation: state.operation ?? null,
+      });
+    },
+
+    // Operation progress tracking
+    startOperation(repoId: string, type: string) {
+      this.currentOperation = {
+        repoId,
+        type,
+        opId: `op_${Date.now()}`,
+        lines: [],
+        progress: null,
+      };
+    },
+
+    // Adopt the main process's opId for the running operation so it can be cancelled
+    attachOperation(repoId: string, opId: string) {
+      const operation = this.currentOperation;
+      if (operation?.repoId !== repoId || operation.completed || operation.cancellable) return;
+
+      operation.opId = opId;
+      operation.cancellable = true;
+    },
+
+    // The operation went on to a step that can't be cancelled
+    endCancellable(repoId: string, opId: string) {
+      const operation = this.currentOperation;
+      if (operation?.repoId !== repoId || operation.opId !== opId) return;
+
+      operation.uncancellable = true;
+    },
+
+    async cancelOperation() {
+      const operation = this.currentOperation;
+      if (
+        !window.githulu ||
+        !operation?.cancellable ||
+        operation.uncancellable ||
+        operation.completed
+      ) {
+        return;
+      }
+
+      try {
+        operation.cancelled = await window.githulu.ops.cancel(operation.opId);
+      } catch (err) {
+        this.addError(operation.repoId, 'cancel', 'Failed to cancel operation', err);
+      }
+    },
+
+    // Progress lines update the progress bar; other output is listed as is
+    addProgress(event: OperationProgressEvent) {
+      const operation = this.currentOperation;
+      if (!operation || (operation.cancellable && operation.opId !== event.opId)) return;
+
+      if (event.progress) {
+        operation.progress = event.progress;
+      } else {
+        operation.lines.push(event.line);
+      }
+    },
+
+    endOperation(success: boolean = true) {
+      if (this.currentOperation) {
+        this.currentOperation.completed = true;
+        this.currentOperation.success = success;
+
+        // Auto-dismiss after a short delay
+        setTimeout(() => {
+          this.currentOperation = null;
+        }, 1500);
+      }
+    },
+
+    clearOperation() {
+      this.currentOperation = null;
+    },
+
+    // Error management
+    addError(repoId: string, opId: string, message: string, err: unknown) {
+      this.errors.push({
+        repoId,
         opId,
         message,
         details: err instanceof Error ? err.message : String(err),
@@ -459,17 +1239,33 @@ export const useGitStore = defineStore('git', {
       }
     },
 
+    async loadStashDetails(repoId: string, index: number): Promise<StashDetailResult | null> {
+      if (!window.githulu) return null;
+
+      try {
+        return await window.githulu.git.showStash(repoId, index);
+      } catch (err) {
+        this.addError(repoId, 'showStash', 'Failed to load stash contents', err);
+        return null;
+      }
+    },
+
     async createStash(
       repoId: string,
       message?: string,
-      includeUntracked?: boolean
+      includeUntracked?: boolean,
+      options?: StashPushOptions
     ): Promise<OpResult | null> {
       if (!window.githulu) return null;
 
       this.startOperation(repoId, 'stash');
 
       try {
-        const result = await window.githulu.git.stashPush(repoId, message, includeUntracked);
+        // Unwrap reactive proxies - IPC can only clone plain objects
+        const result = await window.githulu.git.stashPush(repoId, message, includeUntracked, {
+          ...options,
+          paths: options?.paths ? [...options.paths] : undefined,
+        });
 
         if (result?.success) {
           // Refresh stash list and status
@@ -548,5 +1344,97 @@ export const useGitStore = defineStore('git', {
         return null;
       }
     },
+
+    async stashBranch(repoId: string, index: number, name: string): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      this.startOperation(repoId, 'stashBranch');
+
+      try {
+        const result = await window.githulu.git.stashBranch(repoId, index, name);
+
+        // Always refresh (the branch may be checked out even if applying conflicts)
+        await this.fetchStashes(repoId);
+        await this.fetchStatus(repoId);
+        await this.fetchBranches(repoId);
+
+        this.endOperation(result?.success ?? false);
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'stashBranch', 'Failed to create branch from stash', err);
+        this.endOperation(false);
+        return null;
+      }
+    },
+
+    // Tag operations
+    async fetchTags(repoId: string): Promise<void> {
+      if (!window.githulu) return;
+
+      try {
+        const result = await window.githulu.git.tags(repoId);
+        this.tagsCache.set(repoId, result);
+      } catch (err) {
+        this.addError(repoId, 'fetchTags', 'Failed to fetch tags', err);
+      }
+    },
+
+    async createTag(
+      repoId: string,
+      name: string,
+      target: string,
+      message?: string
+    ): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      try {
+        const result = await window.githulu.git.createTag(repoId, name, target, message);
+
+        if (result?.success) {
+          await this.fetchTags(repoId);
+        }
+
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'createTag', 'Failed to create tag', err);
+        return null;
+      }
+    },
+
+    async deleteTag(repoId: string, name: string, remote?: string): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      this.startOperation(repoId, 'deleteTag');
+
+      try {
+        const result = await window.githulu.git.deleteTag(repoId, name, remote);
+
+        // Refresh even on failure - the local tag may be gone even if the remote delete failed
+        await this.fetchTags(repoId);
+
+        this.endOperation(result?.success ?? false);
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'deleteTag', 'Failed to delete tag', err);
+        this.endOperation(false);
+        return null;
+      }
+    },
+
+    async pushTags(repoId: string, remote?: string, name?: string): Promise<OpResult | null> {
+      if (!window.githulu) return null;
+
+      this.startOperation(repoId, 'pushTags');
+
+      try {
+        const result = await window.githulu.git.pushTags(repoId, remote, name);
+        this.endOperation(result?.success ?? false);
+        return result;
+      } catch (err) {
+        this.addError(repoId, 'pushTags', 'Failed to push tags', err);
+        this.endOperation(false);
+        return null;
+      }
+    },
   },
 });
@@ -1,5 +1,15 @@
 import { defineStore } from 'pinia';
-import type { Group, Repo, UIState } from '~/types/githulu';
+import type {
+  Group,
+  Repo,
+  UIState,
+  CloneOptions,
+  CloneResult,
+  InitOptions,
+  InitResult,
+  ScanFolderOptions,
+  ScanFolderResult,
+} from '~/types/githulu';
 
 interface ReposState {
   groups: Group[];
@@ -43,6 +53,12 @@ export const useReposStore = defineStore('repos', {
           .filter((r): r is Repo => r !== undefined);
       };
     },
+
+    getGroupOfRepo(state) {
+      return (repoId: string): Group | undefined => {
+        return state.groups.find((g) => g.repoIds.includes(repoId));
+      };
+    },
   },
 
   actions: {
@@ -76,24 +92,71 @@ export const useReposStore = defineStore('repos', {
         const folderPath = await window.githulu.utils.selectFolder();
         if (!folderPath) return;
 
-        const result = await window.githulu.repos.add(folderPath);
-
-        // Add to local state
-        this.repos.push(result.repo);
-
-        // Add to first group if exists
-        if (this.groups.length > 0) {
-          this.groups[0].repoIds.push(result.repo.id);
-        }
+        const repo = await this.addRepoAtPath(folderPath);
 
         // Select the new repo
-        this.selectedRepoId = result.repo.id;
+        this.selectedRepoId = repo.id;
       } catch (err) {
         this.error = err instanceof Error ? err.message : 'Failed to add repository';
         throw err;
       }
     },
 
+    // Bookmark a repo folder in the given group (the first group by default)
+    async addRepoAtPath(folderPath: string, groupId?: string): Promise<Repo> {
+      const result = await window.githulu.repos.add(folderPath, groupId);
+      this.addRepoToState(result.repo, groupId);
+      return result.repo;
+    },
+
+    // Clone a repo into a new folder; it's bookmarked in the given group once cloned
+    async cloneRepo(options: CloneOptions, groupId?: string): Promise<CloneResult> {
+      // Unwrap reactive proxies - IPC can only clone plain objects
+      const result = await window.githulu.repos.clone({ ...options }, groupId);
+      if (result.repo) {
+        this.addRepoToState(result.repo, groupId);
+      }
+      return result;
+    },
+
+    // Initialize a repo in a folder and bookmark it, even if the initial commit fails
+    async initRepo(
+      folderPath: string,
+      options: InitOptions,
+      groupId?: string
+    ): Promise<InitResult> {
+      // Unwrap reactive proxies - IPC can only clone plain objects
+      const result = await window.githulu.repos.init(folderPath, { ...options }, groupId);
+      if (result.repo) {
+        this.addRepoToState(result.repo, groupId);
+      }
+      return result;
+    },
+
+    // Bookmark all repos found in a folder and below it
+    async scanFolder(rootPath: string, options: ScanFolderOptions): Promise<ScanFolderResult> {
+      const result = await window.githulu.repos.scanFolder(rootPath, { ...options });
+
+      // Groups may have been created, so take groups and repos as stored
+      if (result.added.length > 0) {
+        const data = await window.githulu.repos.list();
+        this.groups = data.groups;
+        this.repos = data.repos;
+      }
+
+      return result;
+    },
+
+    // Add a newly bookmarked repo to local state
+    addRepoToState(repo: Repo, groupId?: string) {
+      this.repos.push(repo);
+
+      const group = this.groups.find((g) => g.id === groupId) || this.groups[0];
+      if (group) {
+        group.repoIds.push(repo.id);
+      }
+    },
+
     async removeRepo(repoId: string) {
       if (!window.githulu) return;
 
@@ -206,6 +269,23 @@ export const useReposStore = defineStore('repos', {
       }
     },
 
+    async setAutoFetch(repoId: string, enabled: boolean) {
+      if (!window.githulu) return;
+
+      try {
+        await window.githulu.repos.setAutoFetch(repoId, enabled);
+
+        // Update local state
+        const repo = this.repos.find((r) => r.id === repoId);
+        if (repo) {
+          repo.autoFetch = enabled;
+        }
+      } catch (err) {
+        this.error = err instanceof Error ? err.message : 'Failed to change auto-fetch';
+        throw err;
+      }
+    },
+
     selectRepo(repoId: string | null) {
       this.selectedRepoId = repoId;
     },
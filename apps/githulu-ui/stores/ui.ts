@@ -1,5 +1,5 @@
 import { defineStore } from 'pinia';
-import type { DiffResult, BranchInfo, CommitInfo } from '~/types/githulu';
+import type { DiffResult, BranchInfo, CommitInfo, RemoteInfo, Settings } from '~/types/githulu';
 
 interface SelectedFile {
   path: string;
@@ -15,7 +15,7 @@ interface SelectedBranch {
 
 interface UIState {
   appView: 'bookmarks' | 'repo';
-  selectedView: 'workingCopy' | 'history' | 'branches' | 'stashes';
+  selectedView: 'workingCopy' | 'history' | 'branches' | 'stashes' | 'tags';
   selectedFile: SelectedFile | null;
   selectedBranch: SelectedBranch | null;
   selectedCommit: CommitInfo | null;
@@ -31,9 +31,27 @@ interface UIState {
   showRenameBranchModal: boolean;
   renameBranchName: string | null;
   showRebaseModal: boolean;
+  showMergeModal: boolean;
+  mergeModalBranch: string | null;
+  conflictEditorPath: string | null;
   showPushModal: boolean;
   pushModalBranch: string | null;
+  showPullModal: boolean;
+  pullModalRebase: boolean;
+  showRemoteModal: boolean;
+  remoteModalRemote: RemoteInfo | null; // Remote being edited (null when adding one)
+  showWorktreeModal: boolean;
+  showCloneModal: boolean;
+  showInitRepoModal: boolean;
+  showScanFolderModal: boolean;
   showStashModal: boolean;
+  showCreateTagModal: boolean;
+  createTagTarget: string | null;
+  showRevertModal: boolean;
+  revertModalCommits: CommitInfo[];
+  showSettingsModal: boolean;
+  // Application settings (null until loaded)
+  settings: Settings | null;
   // Context menu state
   branchContextMenu: {
     visible: boolean;
@@ -42,6 +60,14 @@ interface UIState {
     branch: BranchInfo | null;
     isRemote: boolean;
   };
+  commitContextMenu: {
+    visible: boolean;
+    x: number;
+    y: number;
+    commit: CommitInfo | null;
+    cherryPickCommits: CommitInfo[]; // Selected commits that can be cherry-picked, oldest first
+    revertCommits: CommitInfo[]; // Selected commits on the current branch, newest first
+  };
   // Toast/notification
   toast: {
     visible: boolean;
@@ -68,9 +94,26 @@ export const useUIStore = defineStore('ui', {
     showRenameBranchModal: false,
     renameBranchName: null,
     showRebaseModal: false,
+    showMergeModal: false,
+    mergeModalBranch: null,
+    conflictEditorPath: null,
     showPushModal: false,
     pushModalBranch: null,
+    showPullModal: false,
+    pullModalRebase: true,
+    showRemoteModal: false,
+    remoteModalRemote: null,
+    showWorktreeModal: false,
+    showCloneModal: false,
+    showInitRepoModal: false,
+    showScanFolderModal: false,
     showStashModal: false,
+    showCreateTagModal: false,
+    createTagTarget: null,
+    showRevertModal: false,
+    revertModalCommits: [],
+    showSettingsModal: false,
+    settings: null,
     branchContextMenu: {
       visible: false,
       x: 0,
@@ -78,6 +121,14 @@ export const useUIStore = defineStore('ui', {
       branch: null,
       isRemote: false,
     },
+    commitContextMenu: {
+      visible: false,
+      x: 0,
+      y: 0,
+      commit: null,
+      cherryPickCommits: [],
+      revertCommits: [],
+    },
     toast: {
       visible: false,
       message: '',
@@ -100,7 +151,7 @@ export const useUIStore = defineStore('ui', {
       this.diffContent = null;
     },
 
-    setSelectedView(view: 'workingCopy' | 'history' | 'branches' | 'stashes') {
+    setSelectedView(view: 'workingCopy' | 'history' | 'branches' | 'stashes' | 'tags') {
       this.selectedView = view;
     },
 
@@ -203,6 +254,25 @@ export const useUIStore = defineStore('ui', {
       this.showRebaseModal = false;
     },
 
+    openMergeModal(branch?: string) {
+      this.mergeModalBranch = branch || null;
+      this.showMergeModal = true;
+    },
+
+    closeMergeModal() {
+      this.showMergeModal = false;
+      this.mergeModalBranch = null;
+    },
+
+    // Conflict editor for one conflicted file
+    openConflictEditor(filePath: string) {
+      this.conflictEditorPath = filePath;
+    },
+
+    closeConflictEditor() {
+      this.conflictEditorPath = null;
+    },
+
     openPushModal(branch: string) {
       this.pushModalBranch = branch;
       this.showPushModal = true;
@@ -213,6 +283,57 @@ export const useUIStore = defineStore('ui', {
       this.pushModalBranch = null;
     },
 
+    openPullModal(rebase = true) {
+      this.pullModalRebase = rebase;
+      this.showPullModal = true;
+    },
+
+    closePullModal() {
+      this.showPullModal = false;
+    },
+
+    openRemoteModal(remote?: RemoteInfo) {
+      this.remoteModalRemote = remote || null;
+      this.showRemoteModal = true;
+    },
+
+    closeRemoteModal() {
+      this.showRemoteModal = false;
+      this.remoteModalRemote = null;
+    },
+
+    openWorktreeModal() {
+      this.showWorktreeModal = true;
+    },
+
+    closeWorktreeModal() {
+      this.showWorktreeModal = false;
+    },
+
+    openCloneModal() {
+      this.showCloneModal = true;
+    },
+
+    closeCloneModal() {
+      this.showCloneModal = false;
+    },
+
+    openInitRepoModal() {
+      this.showInitRepoModal = true;
+    },
+
+    closeInitRepoModal() {
+      this.showInitRepoModal = false;
+    },
+
+    openScanFolderModal() {
+      this.showScanFolderModal = true;
+    },
+
+    closeScanFolderModal() {
+      this.showScanFolderModal = false;
+    },
+
     openStashModal() {
       this.showStashModal = true;
     },
@@ -221,6 +342,34 @@ export const useUIStore = defineStore('ui', {
       this.showStashModal = false;
     },
 
+    openCreateTagModal(target?: string) {
+      this.createTagTarget = target || null;
+      this.showCreateTagModal = true;
+    },
+
+    closeCreateTagModal() {
+      this.showCreateTagModal = false;
+      this.createTagTarget = null;
+    },
+
+    openRevertModal(commits: CommitInfo[]) {
+      this.revertModalCommits = commits;
+      this.showRevertModal = true;
+    },
+
+    closeRevertModal() {
+      this.showRevertModal = false;
+      this.revertModalCommits = [];
+    },
+
+    openSettingsModal() {
+      this.showSettingsModal = true;
+    },
+
+    closeSettingsModal() {
+      this.showSettingsModal = false;
+    },
+
     // Branch selection (for viewing commits, not switching)
     selectBranch(branch: SelectedBranch | null) {
       this.selectedBranch = branch;
@@ -249,6 +398,28 @@ export const useUIStore = defineStore('ui', {
       this.branchContextMenu.visible = false;
     },
 
+    // Commit context menu (history list)
+    openCommitContextMenu(
+      x: number,
+      y: number,
+      commit: CommitInfo,
+      cherryPickCommits: CommitInfo[] = [],
+      revertCommits: CommitInfo[] = []
+    ) {
+      this.commitContextMenu = {
+        visible: true,
+        x,
+        y,
+        commit,
+        cherryPickCommits,
+        revertCommits,
+      };
+    },
+
+    closeCommitContextMenu() {
+      this.commitContextMenu.visible = false;
+    },
+
     // Toast notifications
     showToast(message: string, type: 'success' | 'error' | 'info' = 'info') {
       this.toast = {
@@ -294,5 +465,22 @@ export const useUIStore = defineStore('ui', {
         console.error('[githulu] Failed to load preferences:', err);
       }
     },
+
+    async loadSettings() {
+      if (!window.githulu) return;
+
+      try {
+        this.settings = await window.githulu.settings.get();
+      } catch (err) {
+        console.error('[githulu] Failed to load settings:', err);
+      }
+    },
+
+    async saveSettings(updates: Partial<Settings>) {
+      if (!window.githulu) return;
+
+      // Unwrap reactive proxies - IPC can only clone plain objects
+      this.settings = await window.githulu.settings.set({ ...updates });
+    },
   },
 });
@@ -10,6 +10,7 @@ export interface Repo {
   id: string;
   path: string;
   displayName: string;
+  autoFetch?: boolean; // Background fetch of all remotes; on unless set to false
 }
 
 export interface UIState {
@@ -24,6 +25,17 @@ export interface UIPreferences {
   rightPaneWidth?: number;
 }
 
+export type EditorId = 'cursor' | 'vscode' | 'sublime' | 'custom';
+
+export interface Settings {
+  editorCommand: EditorId;
+  customEditorCommand: string; // Used when editorCommand is 'custom'
+  refreshInterval: number; // Seconds between status refreshes of watched repos
+  watchWorkingTree: boolean; // When off, only changes inside .git trigger a refresh
+  showHiddenFiles: boolean;
+  autoFetchInterval: number; // Minutes between background fetches
+}
+
 export interface RepoStatus {
   repoId: string;
   path: string;
@@ -33,6 +45,7 @@ export interface RepoStatus {
   behind: number;
   isDirty: boolean;
   rebase: RebaseState;
+  operation: SequencerOperation | null; // Operation in progress, same as rebase.operation
   changes: {
     staged: FileChange[];
     unstaged: FileChange[];
@@ -41,11 +54,44 @@ export interface RepoStatus {
   lastUpdatedAt: number;
 }
 
+export type SequencerOperation = 'rebase' | 'cherry-pick' | 'revert' | 'merge';
+
 export interface RebaseState {
   inProgress: boolean;
+  operation?: SequencerOperation; // Set while inProgress
+  interactive?: boolean;
   step?: number;
   total?: number;
-  conflicts: string[];
+  conflicts: string[]; // Unmerged paths, also listed with no operation (e.g. after a squash)
+}
+
+export type ConflictSide = 'ours' | 'theirs';
+
+// Part of a conflicted file: text both sides agree on, or a conflict region
+export type ConflictSegment =
+  | { type: 'common'; text: string }
+  | { type: 'conflict'; ours: string; base: string; theirs: string };
+
+export interface ConflictFileResult {
+  path: string;
+  segments: ConflictSegment[] | null; // null when the file can't be resolved region by region
+  binary: boolean;
+  deletedBy: ConflictSide | null; // Side that deleted the file (modify/delete conflicts)
+}
+
+export type RebaseAction = 'pick' | 'reword' | 'edit' | 'squash' | 'fixup' | 'drop';
+
+export interface RebaseTodoEntry {
+  hash: string;
+  shortHash: string;
+  subject: string;
+  action: RebaseAction;
+  message?: string; // New commit message for reword
+}
+
+export interface RebaseTodoResult {
+  onto: string;
+  entries: RebaseTodoEntry[]; // Oldest first, in execution order
 }
 
 export interface FileChange {
@@ -53,14 +99,38 @@ export interface FileChange {
   status: string;
   kind: 'staged' | 'unstaged' | 'untracked' | 'conflict';
   oldPath?: string;
+  submodule?: SubmoduleChange; // Set when the path is a submodule
+}
+
+export interface SubmoduleChange {
+  commitChanged: boolean;
+  modified: boolean;
+  untracked: boolean;
 }
 
 export interface DiffResult {
   filePath: string;
   staged: boolean;
   diffText: string;
+  submodule?: SubmoduleDiff;
+}
+
+export interface SubmoduleDiff {
+  oldCommit: string | null; // Null when the submodule was added
+  newCommit: string | null; // Null when the submodule was removed
+  dirty: boolean;
+  rewound: boolean; // Commits are the ones dropped rather than added
+  commits: CommitInfo[] | null; // Null when its history isn't available
+}
+
+export interface HunkSelection {
+  hunkIndex: number;
+  header: string;
+  lineIndexes?: number[];
 }
 
+export type PatchAction = 'stage' | 'unstage' | 'discard';
+
 export interface BranchesResult {
   local: BranchInfo[];
   remote: BranchInfo[];
@@ -76,9 +146,27 @@ export interface BranchInfo {
   lastCommit?: string;
 }
 
+// Branch deleted during this session, with its tip so it can be recreated
+export interface DeletedBranch {
+  name: string; // Branch name (without the remote prefix for remote branches)
+  remote?: string; // Set when the branch was deleted from a remote
+  hash: string; // Tip commit at the time of deletion
+}
+
+export interface DeleteBranchResult extends OpResult {
+  deleted: DeletedBranch[];
+  notMerged: string[]; // Branches left alone because they aren't fully merged
+}
+
+export interface MergedBranchesResult {
+  base: string | null; // Default branch the others were checked against
+  branches: string[];
+}
+
 export interface CommitInfo {
   hash: string;
   shortHash: string;
+  parents: string[];
   subject: string;
   body: string;
   author: string;
@@ -94,6 +182,39 @@ export interface LogResult {
   hasMore: boolean;
 }
 
+// Narrows the log to commits matching every field that's set
+export interface LogFilter {
+  author?: string; // Name or email, as a regex
+  since?: string; // YYYY-MM-DD, inclusive, by commit date
+  until?: string; // YYYY-MM-DD, inclusive, by commit date
+  message?: string; // Commit message, as a regex (--grep)
+  content?: string; // Text added or removed (-S), or a regex with contentRegex (-G)
+  contentRegex?: boolean;
+  path?: string; // Only commits touching this file or folder
+}
+
+// default lets git fast-forward when it can and create a merge commit otherwise
+export type MergeMode = 'default' | 'ff-only' | 'no-ff' | 'squash';
+
+export interface MergeOptions {
+  mode?: MergeMode;
+  message?: string; // Merge commit message (git's default message when omitted)
+}
+
+export interface CommitOptions {
+  message: string;
+  amend?: boolean; // Replace the last commit instead of creating a new one
+  signOff?: boolean; // Add a Signed-off-by trailer
+  noVerify?: boolean; // Skip pre-commit and commit-msg hooks
+  author?: string; // Override the author, "Name <email>"
+  allowEmpty?: boolean; // Allow a commit with no changes
+}
+
+export interface RevertOptions {
+  mainline?: number; // Parent number (1-based) to revert merge commits against
+  noCommit?: boolean; // Leave the reverted changes staged instead of committing
+}
+
 export interface CommitFileChange {
   path: string;
   status: string; // A (added), D (deleted), M (modified), R (renamed)
@@ -103,6 +224,7 @@ export interface CommitFileChange {
 export interface CommitDetailResult {
   hash: string;
   shortHash: string;
+  parents: string[];
   subject: string;
   body: string;
   author: string;
@@ -113,6 +235,28 @@ export interface CommitDetailResult {
   files: CommitFileChange[];
 }
 
+export interface BlameLine {
+  lineNumber: number;
+  originalLineNumber: number;
+  content: string;
+  commit: string;
+  shortHash: string;
+  author: string;
+  authorEmail: string;
+  date: string;
+  relativeDate: string;
+  summary: string;
+  originalPath: string;
+  previous?: { commit: string; path: string };
+  isUncommitted: boolean;
+}
+
+export interface BlameResult {
+  filePath: string;
+  rev: string | null;
+  lines: BlameLine[];
+}
+
 export interface StashInfo {
   index: number;
   message: string;
@@ -120,29 +264,85 @@ export interface StashInfo {
   hash: string;
   date: string;
   relativeDate: string;
+  baseHash: string; // Commit the stash was created on
 }
 
 export interface StashListResult {
   stashes: StashInfo[];
 }
 
+export interface StashFileChange extends CommitFileChange {
+  untracked: boolean;
+  diffText: string;
+}
+
+export interface StashDetailResult {
+  index: number;
+  hash: string;
+  baseHash: string;
+  commitsSinceBase: number | null; // Commits on HEAD that the base lacks (null without a HEAD)
+  files: StashFileChange[];
+}
+
+export interface StashPushOptions {
+  paths?: string[];
+  keepIndex?: boolean;
+}
+
+export interface TagInfo {
+  name: string;
+  isAnnotated: boolean;
+  targetHash: string;
+  targetShortHash: string;
+  targetSubject: string;
+  tagger?: string;
+  taggerEmail?: string;
+  message?: string;
+  date: string;
+  relativeDate: string;
+}
+
+export interface TagListResult {
+  tags: TagInfo[];
+}
+
+export interface DiscardSnapshot {
+  id: string; // Snapshot ref name (refs/githulu/discarded/<timestamp>-<suffix>)
+  hash: string;
+  trackedPaths: string[]; // Staged/unstaged changes that were reverted to HEAD
+  untrackedPaths: string[]; // Untracked files that were removed
+  date: string;
+  relativeDate: string;
+}
+
+export interface DiscardSnapshotListResult {
+  snapshots: DiscardSnapshot[];
+}
+
 export interface OpResult {
   opId: string;
   success: boolean;
   stdout?: string;
   stderr?: string;
+  paused?: boolean; // Stopped partway (a conflict or an "edit" stop) to be continued or aborted
+  cancelled?: boolean; // Stopped by the user from the progress drawer
 }
 
 // API interfaces
 export interface GithuluReposAPI {
   list(): Promise<{ groups: Group[]; repos: Repo[]; ui: UIState }>;
-  add(path: string): Promise<{ repo: Repo }>;
+  add(path: string, groupId?: string): Promise<{ repo: Repo }>;
+  clone(options: CloneOptions, groupId?: string): Promise<CloneResult>;
+  init(path: string, options?: InitOptions, groupId?: string): Promise<InitResult>;
+  scanFolder(path: string, options?: ScanFolderOptions): Promise<ScanFolderResult>;
   remove(repoId: string): Promise<void>;
   createGroup(name: string): Promise<{ group: Group }>;
   renameGroup(groupId: string, name: string): Promise<void>;
   deleteGroup(groupId: string): Promise<void>;
   moveRepo(repoId: string, toGroupId: string, index: number): Promise<void>;
   reorderRepo(groupId: string, fromIndex: number, toIndex: number): Promise<void>;
+  setAutoFetch(repoId: string, enabled: boolean): Promise<void>;
+  autoFetchStates(): Promise<AutoFetchState[]>;
 }
 
 export interface PushOptions {
@@ -153,37 +353,201 @@ export interface PushOptions {
 
 export interface PullOptions {
   remote?: string;
+  branch?: string; // Branch on the remote; defaults to the upstream
   rebase?: boolean;
 }
 
+export interface RemoteInfo {
+  name: string;
+  fetchUrl: string;
+  pushUrl: string;
+}
+
+export interface RemotesResult {
+  remotes: RemoteInfo[];
+}
+
+export interface WorktreeInfo {
+  path: string;
+  head: string | null;
+  branch: string | null; // Null when HEAD is detached
+  isMain: boolean;
+  isCurrent: boolean;
+  isDirty: boolean;
+  locked: boolean;
+  prunable: boolean; // Its directory is gone
+}
+
+export interface WorktreesResult {
+  worktrees: WorktreeInfo[];
+}
+
+export interface SubmoduleInfo {
+  path: string;
+  commit: string;
+  state: 'uninitialized' | 'upToDate' | 'outOfDate' | 'conflict';
+  describe: string | null;
+}
+
+export interface SubmodulesResult {
+  submodules: SubmoduleInfo[];
+}
+
+export interface CloneOptions {
+  url: string; // Remote URL, local path or file:// URL
+  dest: string; // Absolute path of the new folder
+  branch?: string;
+  depth?: number;
+  recurseSubmodules?: boolean;
+}
+
+export interface CloneResult extends OpResult {
+  repo: Repo | null; // The bookmarked repo, once the clone succeeded
+}
+
+export type GitignoreTemplate = 'node' | 'python' | 'go' | 'rust' | 'java' | 'macos';
+
+export interface InitOptions {
+  initialCommit?: boolean;
+  gitignoreTemplate?: GitignoreTemplate; // Not written over an existing .gitignore
+}
+
+export interface InitResult extends OpResult {
+  repo: Repo | null; // The bookmarked repo, once git init succeeded
+}
+
+export interface ScanFolderOptions {
+  groupPerParent?: boolean;
+  groupId?: string;
+}
+
+export interface ScanFolderResult {
+  added: Repo[];
+  skipped: string[]; // Repos that were already bookmarked or couldn't be added
+}
+
+export interface AddWorktreeOptions {
+  path: string;
+  branch: string;
+  createBranch?: boolean;
+  startPoint?: string;
+}
+
+export interface AutoFetchState {
+  repoId: string;
+  lastFetchedAt: number | null;
+  nextFetchAt: number | null; // null while auto-fetch is off for the repo
+  failures: number; // Consecutive failures; each one doubles the delay
+  lastError: string | null;
+}
+
+// A phase of git's progress output, e.g. "Receiving objects: 45% (450/1000), 1.20 MiB | 2.40 MiB/s"
+export interface GitProgress {
+  phase: string;
+  percent: number | null; // null for phases that only count
+  current: number;
+  total: number | null;
+  transferred: string | null;
+  throughput: string | null;
+  done: boolean;
+}
+
+export interface OperationProgressEvent {
+  repoId: string;
+  opId: string;
+  line: string;
+  progress: GitProgress | null;
+}
+
 export interface GithuluGitAPI {
   status(repoId: string): Promise<RepoStatus>;
   refreshStatus(repoId: string): Promise<RepoStatus>;
   fetch(repoId: string, remote?: string): Promise<OpResult>;
+  fetchAll(repoId: string): Promise<OpResult>;
   push(repoId: string, branch: string): Promise<OpResult>;
   pushWithOptions(repoId: string, branch: string, options?: PushOptions): Promise<OpResult>;
   pull(repoId: string, options?: PullOptions): Promise<OpResult>;
-  publish(repoId: string, branch: string): Promise<OpResult>;
+  publish(repoId: string, branch: string, remote?: string): Promise<OpResult>;
+  remotes(repoId: string): Promise<RemotesResult>;
+  addRemote(repoId: string, name: string, url: string): Promise<OpResult>;
+  renameRemote(repoId: string, oldName: string, newName: string): Promise<OpResult>;
+  removeRemote(repoId: string, name: string): Promise<OpResult>;
+  setRemoteUrl(repoId: string, name: string, url: string, push?: boolean): Promise<OpResult>;
+  worktrees(repoId: string): Promise<WorktreesResult>;
+  addWorktree(repoId: string, options: AddWorktreeOptions): Promise<OpResult>;
+  removeWorktree(repoId: string, worktreePath: string, force?: boolean): Promise<OpResult>;
+  pruneWorktrees(repoId: string): Promise<OpResult>;
+  submodules(repoId: string): Promise<SubmodulesResult>;
+  initSubmodules(repoId: string, paths?: string[]): Promise<OpResult>;
+  updateSubmodules(repoId: string, paths?: string[]): Promise<OpResult>;
+  syncSubmodules(repoId: string, paths?: string[]): Promise<OpResult>;
   branches(repoId: string): Promise<BranchesResult>;
-  log(repoId: string, count?: number, skip?: number): Promise<LogResult>;
+  log(
+    repoId: string,
+    count?: number,
+    skip?: number,
+    ref?: string,
+    filter?: LogFilter
+  ): Promise<LogResult>;
   showCommit(repoId: string, hash: string): Promise<CommitDetailResult>;
   diffCommitFile(repoId: string, hash: string, filePath: string): Promise<DiffResult>;
+  blame(repoId: string, filePath: string, rev?: string): Promise<BlameResult>;
   createBranch(repoId: string, name: string, from: string): Promise<OpResult>;
   trackBranch(repoId: string, remoteBranch: string, localName?: string): Promise<OpResult>;
   switchBranch(repoId: string, name: string): Promise<OpResult>;
+  deleteBranch(repoId: string, name: string, force?: boolean): Promise<DeleteBranchResult>;
+  deleteRemoteBranch(repoId: string, remote: string, name: string): Promise<DeleteBranchResult>;
+  mergedBranches(repoId: string): Promise<MergedBranchesResult>;
+  deleteMergedBranches(repoId: string, names: string[]): Promise<DeleteBranchResult>;
+  restoreBranch(repoId: string, branch: DeletedBranch): Promise<OpResult>;
   diff(repoId: string, filePath: string, staged: boolean): Promise<DiffResult>;
+  difftool(repoId: string, filePath: string, staged: boolean): Promise<OpResult>;
   stageFile(repoId: string, filePath: string): Promise<OpResult>;
   unstageFile(repoId: string, filePath: string): Promise<OpResult>;
+  applyHunks(
+    repoId: string,
+    filePath: string,
+    action: PatchAction,
+    selections: HunkSelection[]
+  ): Promise<OpResult>;
+  discardFile(repoId: string, filePath: string): Promise<OpResult>;
+  discardAll(repoId: string): Promise<OpResult>;
+  removeUntracked(repoId: string): Promise<OpResult>;
+  discardedList(repoId: string): Promise<DiscardSnapshotListResult>;
+  restoreDiscarded(repoId: string, id: string): Promise<OpResult>;
   stageAll(repoId: string): Promise<OpResult>;
-  commit(repoId: string, message: string): Promise<OpResult>;
+  commit(repoId: string, options: CommitOptions): Promise<OpResult>;
   rebaseStart(repoId: string, onto: string): Promise<OpResult>;
+  rebaseTodo(repoId: string, onto: string): Promise<RebaseTodoResult>;
+  rebaseInteractive(repoId: string, onto: string, entries: RebaseTodoEntry[]): Promise<OpResult>;
   rebaseContinue(repoId: string): Promise<OpResult>;
   rebaseAbort(repoId: string): Promise<OpResult>;
+  cherryPick(repoId: string, hashes: string[]): Promise<OpResult>;
+  revert(repoId: string, hashes: string[], options?: RevertOptions): Promise<OpResult>;
+  merge(repoId: string, branch: string, options?: MergeOptions): Promise<OpResult>;
+  sequencerContinue(repoId: string): Promise<OpResult>;
+  sequencerSkip(repoId: string): Promise<OpResult>;
+  sequencerAbort(repoId: string): Promise<OpResult>;
+  conflictFile(repoId: string, filePath: string): Promise<ConflictFileResult>;
+  resolveConflict(repoId: string, filePath: string, content: string): Promise<OpResult>;
+  resolveConflictSide(repoId: string, filePath: string, side: ConflictSide): Promise<OpResult>;
+  mergetool(repoId: string, filePath: string): Promise<OpResult>;
   stashList(repoId: string): Promise<StashListResult>;
-  stashPush(repoId: string, message?: string, includeUntracked?: boolean): Promise<OpResult>;
+  showStash(repoId: string, index: number): Promise<StashDetailResult>;
+  stashPush(
+    repoId: string,
+    message?: string,
+    includeUntracked?: boolean,
+    options?: StashPushOptions
+  ): Promise<OpResult>;
   stashPop(repoId: string, index?: number): Promise<OpResult>;
   stashApply(repoId: string, index: number): Promise<OpResult>;
   stashDrop(repoId: string, index: number): Promise<OpResult>;
+  stashBranch(repoId: string, index: number, name: string): Promise<OpResult>;
+  tags(repoId: string): Promise<TagListResult>;
+  createTag(repoId: string, name: string, target: string, message?: string): Promise<OpResult>;
+  deleteTag(repoId: string, name: string, remote?: string): Promise<OpResult>;
+  pushTags(repoId: string, remote?: string, name?: string): Promise<OpResult>;
 }
 
 export interface GithuluEventsAPI {
@@ -192,7 +556,7 @@ export interface GithuluEventsAPI {
 
 export interface GithuluUtilsAPI {
   selectFolder(): Promise<string | null>;
-  openInEditor(filePath: string): Promise<void>;
+  openInEditor(filePath: string, line?: number): Promise<void>;
 }
 
 export interface GithuluUIAPI {
@@ -200,12 +564,23 @@ export interface GithuluUIAPI {
   loadPreferences(): Promise<UIPreferences | null>;
 }
 
+export interface GithuluSettingsAPI {
+  get(): Promise<Settings>;
+  set(updates: Partial<Settings>): Promise<Settings>;
+}
+
+export interface GithuluOpsAPI {
+  cancel(opId: string): Promise<boolean>;
+}
+
 export interface GithuluAPI {
   repos: GithuluReposAPI;
   git: GithuluGitAPI;
   events: GithuluEventsAPI;
   utils: GithuluUtilsAPI;
   ui: GithuluUIAPI;
+  settings: GithuluSettingsAPI;
+  ops: GithuluOpsAPI;
 }
 
 declare global {